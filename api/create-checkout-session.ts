@@ -1,7 +1,18 @@
 import Stripe from "stripe";
 import type { VercelRequest, VercelResponse } from "@vercel/node";
 
-const PRODUCT_PRICE = 4000; // £40.00 in pence
+/** Model price in pence by print size (longest side, mm) */
+const PRODUCT_PRICES: Record<number, number> = {
+  100: 2500, // £25.00
+  150: 3200, // £32.00
+  200: 4000, // £40.00
+  300: 7000, // £70.00
+};
+const DEFAULT_SIZE_MM = 200;
+/** Per plate beyond the first, for cutting, keying and packing a tiled print */
+const PLATE_SURCHARGE = 1000; // £10.00
+/** Largest plate grid on offer, either way */
+const MAX_PLATES_PER_SIDE = 4;
 const SHIPPING_UK = 500; // £5.00
 const SHIPPING_INTL = 1500; // £15.00
 
@@ -11,6 +22,49 @@ const UK_COUNTRIES: Stripe.Checkout.SessionCreateParams.ShippingAddressCollectio
 const US_COUNTRIES: Stripe.Checkout.SessionCreateParams.ShippingAddressCollection.AllowedCountry[] =
   ["US"];
 
+/** Stripe caps each metadata value at 500 characters */
+const METADATA_VALUE_MAX = 500;
+
+/** …and a session's metadata at 50 keys */
+const METADATA_KEYS_MAX = 50;
+
+/**
+ * Coordinates in Google's encoded polyline format at 5 decimals (~1m):
+ * each value a zigzagged delta from the last, in 5-bit base64 chunks.
+ * Typically 4–8 characters a corner instead of ~22 as plain text.
+ */
+export function encodePolyline(points: [number, number][]): string {
+  let text = "";
+  let last = [0, 0];
+  for (const point of points) {
+    const scaled = point.map((v) => Math.round(v * 1e5));
+    for (const i of [0, 1]) {
+      let n = scaled[i] - last[i];
+      n = n < 0 ? ~(n << 1) : n << 1;
+      while (n >= 0x20) {
+        text += String.fromCharCode((0x20 | (n & 0x1f)) + 63);
+        n >>= 5;
+      }
+      text += String.fromCharCode(n + 63);
+    }
+    last = scaled;
+  }
+  return text;
+}
+
+/**
+ * A drawn outline as an encoded polyline of lat,lng pairs, split over
+ * outline_1, outline_2, … so long outlines survive Stripe's value limit.
+ */
+export function outlineMetadata(outline: [number, number][]): Record<string, string> {
+  const text = encodePolyline(outline);
+  const chunks: Record<string, string> = { outline_encoding: "polyline5" };
+  for (let i = 0; i * METADATA_VALUE_MAX < text.length; i++) {
+    chunks[`outline_${i + 1}`] = text.slice(i * METADATA_VALUE_MAX, (i + 1) * METADATA_VALUE_MAX);
+  }
+  return chunks;
+}
+
 export default async function handler(
   req: VercelRequest,
   res: VercelResponse
@@ -28,8 +82,30 @@ export default async function handler(
   const stripe = new Stripe(apiKey);
 
   try {
-    const { bounds, locationName, shippingRegion, bearing, mapUrl } = req.body as {
+    const { bounds, selection, options, locationName, shippingRegion, bearing, mapUrl } = req.body as {
       bounds: [number, number, number, number] | null;
+      /** The exact (possibly rotated) frame; bounds is its bounding box */
+      selection?: {
+        center: [number, number];
+        widthM: number;
+        heightM: number;
+        bearing: number;
+        shape?: string;
+        outline?: [number, number][];
+        /** Printed length of the longest side */
+        sizeMm?: number;
+      };
+      /** How the previewed model was styled */
+      options?: {
+        heightMapping: { exaggeration: number; minHeightMm: number; curve: string };
+        relief: boolean;
+        bridgePiers: boolean;
+        terrainExaggeration: number | null;
+        plates: { cols: number; rows: number };
+        autoFix: boolean;
+        dataFile: string | null;
+        dataFetchedAt: number | null;
+      };
       locationName: string;
       shippingRegion: "uk" | "usa";
       bearing?: number;
@@ -40,6 +116,29 @@ export default async function handler(
       return res.status(400).json({ error: "Missing required fields" });
     }
 
+    const sizeMm = selection?.sizeMm ?? DEFAULT_SIZE_MM;
+    const productPrice = PRODUCT_PRICES[sizeMm];
+    if (!productPrice) {
+      return res.status(400).json({ error: `Unsupported model size: ${sizeMm}mm` });
+    }
+
+    const { cols, rows } = options?.plates ?? { cols: 1, rows: 1 };
+    const validGrid = (n: number) => Number.isInteger(n) && n >= 1 && n <= MAX_PLATES_PER_SIDE;
+    if (!validGrid(cols) || !validGrid(rows)) {
+      return res.status(400).json({ error: `Unsupported plate grid: ${cols} × ${rows}` });
+    }
+    const plateCount = cols * rows;
+    const unitAmount = productPrice + (plateCount - 1) * PLATE_SURCHARGE;
+
+    // Printed footprint: the longest side is sizeMm, the other in proportion
+    const longest = selection ? Math.max(selection.widthM, selection.heightM) : 0;
+    const [widthMm, depthMm] = selection && longest > 0
+      ? [(selection.widthM / longest) * sizeMm, (selection.heightM / longest) * sizeMm]
+      : [sizeMm, sizeMm];
+    const footprint =
+      `${Math.round(widthMm) / 10} cm × ${Math.round(depthMm) / 10} cm` +
+      (plateCount > 1 ? ` · ${cols} × ${rows} keyed plates` : "");
+
     const isUk = shippingRegion === "uk";
     const shippingAmount = isUk ? SHIPPING_UK : SHIPPING_INTL;
     const shippingLabel = isUk ? "UK Delivery" : "USA Delivery";
@@ -57,9 +156,47 @@ export default async function handler(
       bottom_right_lat: String(south),
       bottom_right_lng: String(east),
       ...(bearing != null ? { bearing: String(bearing) } : {}),
+      ...(selection
+        ? {
+            center_lat: String(selection.center[0]),
+            center_lng: String(selection.center[1]),
+            width_m: String(Math.round(selection.widthM)),
+            height_m: String(Math.round(selection.heightM)),
+            shape: selection.shape ?? "rectangle",
+            size_mm: String(sizeMm),
+          }
+        : {}),
+      // Styling the customer previewed; the model is rebuilt from these at fulfilment
+      ...(options
+        ? {
+            height_exaggeration: String(options.heightMapping.exaggeration),
+            height_min_mm: String(options.heightMapping.minHeightMm),
+            height_curve: options.heightMapping.curve,
+            relief: String(options.relief),
+            bridge_piers: String(options.bridgePiers),
+            terrain_exaggeration: options.terrainExaggeration != null ? String(options.terrainExaggeration) : "flat",
+            plates: `${cols}x${rows}`,
+            auto_fix: String(options.autoFix),
+            // Fulfilment re-fetches OpenStreetMap unless told the model came from elsewhere
+            data_source: options.dataFile ? "file" : options.dataFetchedAt != null ? "openstreetmap" : "generated",
+            ...(options.dataFile ? { data_file: options.dataFile.slice(0, METADATA_VALUE_MAX) } : {}),
+            ...(options.dataFetchedAt != null ? { osm_fetched_at: new Date(options.dataFetchedAt).toISOString() } : {}),
+          }
+        : {}),
       ...(mapUrl ? { mapUrl } : {}),
     };
 
+    // Circles and hexagons follow from the frame; only drawn outlines need spelling out
+    if (selection?.shape === "polygon" && selection.outline) {
+      const outline = outlineMetadata(selection.outline);
+      if (Object.keys(orderMetadata).length + Object.keys(outline).length > METADATA_KEYS_MAX) {
+        return res.status(400).json({
+          error: "This outline has too many corners to order — simplify it or pick a simpler shape",
+        });
+      }
+      Object.assign(orderMetadata, outline);
+    }
+
     const session = await stripe.checkout.sessions.create({
       mode: "payment",
       line_items: [
@@ -68,9 +205,9 @@ export default async function handler(
             currency: "gbp",
             product_data: {
               name: `3D City Model — ${locationName || "Custom Location"}`,
-              description: "3D printed PLA · 20 cm × 20 cm",
+              description: `3D printed PLA · ${footprint}`,
             },
-            unit_amount: PRODUCT_PRICE,
+            unit_amount: unitAmount,
           },
           quantity: 1,
         },
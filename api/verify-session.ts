@@ -46,6 +46,11 @@ export default async function handler(
   }
 }
 
+/** Escape text from the order (file names and the like) for the email's HTML */
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
 async function sendOrderEmail(stripe: Stripe, session: Stripe.Checkout.Session) {
   const resendKey = process.env.RESEND_API_KEY;
   const notifyEmail = process.env.ORDER_NOTIFY_EMAIL;
@@ -68,6 +73,12 @@ async function sendOrderEmail(stripe: Stripe, session: Stripe.Checkout.Session)
   const shippingRegion = meta.shippingRegion || "—";
   const mapUrl = meta.mapUrl || null;
   const bearing = meta.bearing || null;
+  const dataSource =
+    meta.data_source === "file"
+      ? `Imported file: ${escapeHtml(meta.data_file || "unnamed")} — not in live OpenStreetMap`
+      : meta.data_source === "generated"
+        ? "Generated preview data — Overpass was unavailable"
+        : null;
   const coords = {
     north: meta.top_left_lat,
     west: meta.top_left_lng,
@@ -129,6 +140,11 @@ async function sendOrderEmail(stripe: Stripe, session: Stripe.Checkout.Session)
         <td style="padding:8px 0;color:#6b7280;vertical-align:top">Bearing</td>
         <td style="padding:8px 0">${bearing}°</td>
       </tr>` : ""}
+      ${dataSource ? `
+      <tr>
+        <td style="padding:8px 0;color:#6b7280;vertical-align:top">Map data</td>
+        <td style="padding:8px 0;font-weight:600;color:#b45309">${dataSource}</td>
+      </tr>` : ""}
       <tr>
         <td style="padding:8px 0;color:#6b7280;vertical-align:top">Shipping</td>
         <td style="padding:8px 0">${shippingRegion === "uk" ? "UK" : "USA"}</td>
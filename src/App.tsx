@@ -1,11 +1,14 @@
-import { useCallback, useState, useRef, useEffect, lazy, Suspense } from "react";
+import { useCallback, useMemo, useState, useRef, useEffect, lazy, Suspense } from "react";
 import MapSelector from "./MapSelector";
 import ProductPage from "./ProductPage";
 import PaymentSuccess from "./PaymentSuccess";
 import ReviewCarousel from "./ReviewCarousel";
 import { useOverpassData } from "./useOverpassData";
 import CityLoadingAnimation from "./CityLoadingAnimation";
-import type { Bounds } from "./types";
+import { DEFAULT_HEIGHT_MAPPING, DEFAULT_RELIEF, mapBuildingHeights } from "./geometryUtils";
+import { DEFAULT_TERRAIN_EXAGGERATION } from "./elevation";
+import { usePrintCheck } from "./usePrintCheck";
+import type { HeightMapping, PlateGrid, SceneData, Selection } from "./types";
 
 const LazyViewerOverlay = lazy(() =>
   import("./ModelPreview").then((m) => ({ default: m.ViewerOverlay }))
@@ -16,12 +19,29 @@ declare const __BUILD_HASH__: string;
 const isProd = typeof window !== "undefined" && window.location.hostname.endsWith("drakey.co.uk");
 
 export default function App() {
-  const { loading, error, sceneData, fetchData, retryAttempt, maxRetries } =
-    useOverpassData();
+  const {
+    loading,
+    error,
+    sceneData,
+    fetchData,
+    loadFile,
+    retryAttempt,
+    maxRetries,
+    stage,
+    fetchedAt,
+    dataFile,
+    clearCache,
+  } = useOverpassData();
   const [locationName, setLocationName] = useState("");
   const [areaDescription, setAreaDescription] = useState("");
-  const [selectedBounds, setSelectedBounds] = useState<Bounds | null>(null);
+  const [selection, setSelection] = useState<Selection | null>(null);
   const [showViewer, setShowViewer] = useState(false);
+  const [relief, setRelief] = useState(false);
+  const [bridgePiers, setBridgePiers] = useState(true);
+  const [terrainExaggeration, setTerrainExaggeration] = useState(DEFAULT_TERRAIN_EXAGGERATION);
+  const [heightMapping, setHeightMapping] = useState<HeightMapping>(DEFAULT_HEIGHT_MAPPING);
+  const [plates, setPlates] = useState<PlateGrid>({ cols: 1, rows: 1 });
+  const [autoFix, setAutoFix] = useState(false);
   const [stripeSessionId] = useState(() => {
     const params = new URLSearchParams(window.location.search);
     return params.get("session_id") || null;
@@ -31,6 +51,25 @@ export default function App() {
 
   const [paymentDismissed, setPaymentDismissed] = useState(false);
 
+  // Model styling is applied on top of the fetched data, so toggling it
+  // re-renders the preview without another Overpass round-trip
+  const styledScene = useMemo<SceneData | null>(() => {
+    if (!sceneData) return null;
+    let scene = { ...sceneData, buildings: mapBuildingHeights(sceneData.buildings, heightMapping) };
+    // Terrain takes precedence over relief, so leave relief off the scene
+    // (and the order) rather than recording an engraving that isn't made
+    if (relief && !scene.terrain) scene = { ...scene, relief: DEFAULT_RELIEF };
+    if (bridgePiers) scene = { ...scene, bridgePiers };
+    if (plates.cols * plates.rows > 1) scene = { ...scene, plates };
+    if (scene.terrain) {
+      scene = { ...scene, terrain: { ...scene.terrain, exaggeration: terrainExaggeration } };
+    }
+    return scene;
+  }, [sceneData, relief, bridgePiers, terrainExaggeration, heightMapping, plates]);
+
+  // Checked before fixing, so the report still lists what auto-fix changed
+  const { report: printReport, modelScene } = usePrintCheck(styledScene, autoFix);
+
   // Clean the ?session_id query param from the URL without a reload
   useEffect(() => {
     if (stripeSessionId) {
@@ -42,23 +81,22 @@ export default function App() {
     setPaymentDismissed(true);
   }, []);
 
-  const handleBoundsSelected = useCallback(
-    (bounds: Bounds, name?: string, bearing?: number) => {
+  const handleAreaSelected = useCallback(
+    (area: Selection, name?: string) => {
       // Close the 3D viewer before starting a new generation so we never
       // have two WebGL contexts (ViewerOverlay + CaptureRender) alive at once.
       setShowViewer(false);
 
       // Start Overpass data fetch immediately
-      fetchData(bounds, bearing ?? 0);
-      setSelectedBounds(bounds);
+      fetchData(area);
+      setSelection(area);
       setAreaDescription("");
 
       // Set search name as interim while we reverse geocode
       if (name) setLocationName(name);
 
-      // Reverse geocode the center of the selected bounds
-      const lat = (bounds[0] + bounds[2]) / 2;
-      const lon = (bounds[1] + bounds[3]) / 2;
+      // Reverse geocode the center of the selection
+      const [lat, lon] = area.center;
 
       fetch(
         `https://nominatim.openstreetmap.org/reverse?format=json&lat=${lat}&lon=${lon}&zoom=14&addressdetails=1`,
@@ -104,6 +142,19 @@ export default function App() {
     [fetchData]
   );
 
+  const handleFileSelected = useCallback(
+    (area: Selection, file: File) => {
+      setShowViewer(false);
+      loadFile(area, file);
+      setSelection(area);
+      setAreaDescription("");
+      // Named after the file rather than geocoded: file users may have
+      // no access to the public OSM services
+      setLocationName(file.name.replace(/\.(osm\.pbf|osm|xml|pbf|geojson|json)$/i, ""));
+    },
+    [loadFile]
+  );
+
   // Auto-scroll to loading animation when generation starts or retries update
   useEffect(() => {
     if (loading && loadingRef.current) {
@@ -163,7 +214,11 @@ export default function App() {
 
           {/* Map */}
           <div className="flex-1 min-h-0">
-            <MapSelector onBoundsSelected={handleBoundsSelected} loading={loading} />
+            <MapSelector
+              onAreaSelected={handleAreaSelected}
+              onFileSelected={handleFileSelected}
+              loading={loading}
+            />
           </div>
         </div>
       </div>
@@ -174,6 +229,7 @@ export default function App() {
           <CityLoadingAnimation
             retryAttempt={retryAttempt}
             maxRetries={maxRetries}
+            stage={stage}
           />
           <ReviewCarousel compact loading />
         </div>
@@ -182,18 +238,34 @@ export default function App() {
       {/* ── Error notice ── */}
       {error && !loading && (
         <div className="px-6 py-3 bg-red-50 text-red-700 text-[13px] text-center border-t border-red-200">
-          Overpass API issue: {error} — showing generated preview data
+          {sceneData ? `Overpass API issue: ${error} — showing generated preview data` : error}
         </div>
       )}
 
       {/* ── Product Page (appears after generation) ── */}
-      {sceneData && !loading && (
+      {modelScene && !loading && (
         <div ref={productRef}>
           <ProductPage
-            sceneData={sceneData}
+            sceneData={modelScene}
             locationName={locationName}
             areaDescription={areaDescription}
-            bounds={selectedBounds}
+            selection={selection}
+            relief={relief}
+            onReliefChange={setRelief}
+            bridgePiers={bridgePiers}
+            onBridgePiersChange={setBridgePiers}
+            terrainExaggeration={terrainExaggeration}
+            onTerrainExaggerationChange={setTerrainExaggeration}
+            heightMapping={heightMapping}
+            onHeightMappingChange={setHeightMapping}
+            plates={plates}
+            onPlatesChange={setPlates}
+            printReport={printReport}
+            autoFix={autoFix}
+            onAutoFixChange={setAutoFix}
+            dataFetchedAt={fetchedAt}
+            dataFile={dataFile}
+            onClearCache={clearCache}
             onOpenViewer={() => setShowViewer(true)}
           />
         </div>
@@ -205,10 +277,10 @@ export default function App() {
       )}
 
       {/* ── Fullscreen 3D Viewer Overlay (lazy-loaded on interaction only) ── */}
-      {showViewer && sceneData && (
+      {showViewer && modelScene && (
         <Suspense fallback={null}>
           <LazyViewerOverlay
-            sceneData={sceneData}
+            sceneData={modelScene}
             onClose={() => setShowViewer(false)}
           />
         </Suspense>
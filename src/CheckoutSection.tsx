@@ -1,46 +1,65 @@
 import { useState } from "react";
-import type { Bounds } from "./types";
+import type { OrderOptions, Selection } from "./types";
+import { computeScale, MODEL_SIZE_MM, selectionBounds } from "./geometryUtils";
 
 type ShippingRegion = "uk" | "usa";
 
 interface Props {
   heroImage: string | null;
   locationName: string;
-  bounds: Bounds | null;
+  selection: Selection | null;
+  /** Styling applied in the preview, so fulfilment prints what the customer saw */
+  options: OrderOptions;
 }
 
-const PRODUCT_PRICE = 40;
+/** Model price by print size (longest side, mm) — the API has the same table */
+const PRODUCT_PRICES: Record<number, number> = {
+  100: 25,
+  150: 32,
+  200: 40,
+  300: 70,
+};
+/** Extra charge per plate beyond the first, for cutting, keying and packing a tiled print — the API has the same */
+const PLATE_SURCHARGE = 10;
 const SHIPPING: Record<ShippingRegion, { label: string; price: number }> = {
   uk: { label: "United Kingdom", price: 5 },
   usa: { label: "United States", price: 15 },
 };
 
-export default function CheckoutSection({ heroImage, locationName, bounds }: Props) {
+export default function CheckoutSection({ heroImage, locationName, selection, options }: Props) {
   const [region, setRegion] = useState<ShippingRegion>("uk");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  const sizeMm = selection?.sizeMm ?? MODEL_SIZE_MM;
+  const productPrice = PRODUCT_PRICES[sizeMm] ?? PRODUCT_PRICES[MODEL_SIZE_MM];
+  const plateCount = options.plates.cols * options.plates.rows;
+  const tilingPrice = (plateCount - 1) * PLATE_SURCHARGE;
   const shipping = SHIPPING[region];
-  const total = PRODUCT_PRICE + shipping.price;
+  const total = productPrice + tilingPrice + shipping.price;
+
+  // Printed footprint, e.g. "20cm x 15cm"
+  const { modelWidthMm, modelDepthMm } = selection
+    ? computeScale(selection)
+    : { modelWidthMm: MODEL_SIZE_MM, modelDepthMm: MODEL_SIZE_MM };
+  const footprint = `${Math.round(modelWidthMm) / 10}cm x ${Math.round(modelDepthMm) / 10}cm`;
 
   const handleCheckout = async () => {
-    if (!bounds) return;
+    if (!selection) return;
     setLoading(true);
     setError(null);
 
     try {
-      // Extract bearing from the URL hash so we pass it explicitly to Stripe
-      const hashParams = new URLSearchParams(window.location.hash.slice(1));
-      const bearing = parseFloat(hashParams.get("b") || "0") || 0;
-
       const res = await fetch("/api/create-checkout-session", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          bounds,
+          bounds: selectionBounds(selection),
+          selection,
+          options,
           locationName,
           shippingRegion: region,
-          bearing,
+          bearing: selection.bearing,
           mapUrl: window.location.href,
         }),
       });
@@ -90,11 +109,17 @@ export default function CheckoutSection({ heroImage, locationName, bounds }: Pro
               {locationName || "Custom City Model"}
             </div>
             <div className="text-[13px] text-gray-400">
-              3D printed PLA &middot; 20cm x 20cm
+              3D printed PLA &middot; {footprint}
+              {plateCount > 1 && ` · ${options.plates.cols} × ${options.plates.rows} plates`}
             </div>
+            {options.dataFile && (
+              <div className="text-[12px] text-gray-400 mt-0.5 whitespace-nowrap overflow-hidden text-ellipsis">
+                Map data from {options.dataFile}, not live OpenStreetMap
+              </div>
+            )}
           </div>
           <div className="font-bold text-base text-[#1a1a2e] shrink-0">
-            &pound;{PRODUCT_PRICE.toFixed(2)}
+            &pound;{productPrice.toFixed(2)}
           </div>
         </div>
 
@@ -141,8 +166,14 @@ export default function CheckoutSection({ heroImage, locationName, bounds }: Pro
         <div className="px-6 py-5 border-b border-[#f0ede8]">
           <div className="flex justify-between mb-2 text-sm text-gray-600">
             <span>Model</span>
-            <span>&pound;{PRODUCT_PRICE.toFixed(2)}</span>
+            <span>&pound;{productPrice.toFixed(2)}</span>
           </div>
+          {tilingPrice > 0 && (
+            <div className="flex justify-between mb-2 text-sm text-gray-600">
+              <span>Tiling ({plateCount} keyed plates)</span>
+              <span>&pound;{tilingPrice.toFixed(2)}</span>
+            </div>
+          )}
           <div className="flex justify-between mb-3 text-sm text-gray-600">
             <span>Shipping ({shipping.label})</span>
             <span>&pound;{shipping.price.toFixed(2)}</span>
@@ -157,9 +188,9 @@ export default function CheckoutSection({ heroImage, locationName, bounds }: Pro
         <div className="px-6 py-5">
           <button
             onClick={handleCheckout}
-            disabled={!bounds || loading}
+            disabled={!selection || loading}
             className={`w-full py-4 px-6 text-white border-none rounded-[10px] text-base font-semibold tracking-wide transition-colors duration-150 ${
-              bounds && !loading
+              selection && !loading
                 ? "bg-[#1a1a2e] cursor-pointer hover:bg-[#2a2a3e]"
                 : "bg-slate-400 cursor-not-allowed"
             }`}
@@ -1,4 +1,5 @@
 import { useEffect, useRef, useState } from "react";
+import type { LoadStage } from "./useOverpassData";
 
 /** Funky messages shown while waiting */
 const BUILDING_MESSAGES = [
@@ -28,11 +29,23 @@ const LONG_WAIT_MESSAGES = [
   "Almost there... probably...",
 ];
 
+/** What's actually happening, under the funky message */
+const STAGE_LABELS: Record<LoadStage, string> = {
+  fetching: "Downloading map data",
+  reading: "Reading map data",
+  features: "Shaping buildings, streets and parks",
+  coastline: "Tracing the coastline",
+  cleanup: "Smoothing away unprintable detail",
+  terrain: "Adding the hills",
+};
+
 interface Props {
   /** Current retry attempt (0 = first try, 1+ = retrying) */
   retryAttempt: number;
   /** Total max retries */
   maxRetries: number;
+  /** Current step of the load */
+  stage: LoadStage;
 }
 
 /** Number of buildings in the skyline */
@@ -48,7 +61,7 @@ const BUILDINGS = Array.from({ length: BUILDING_COUNT }, (_, i) => ({
   windowRows: 2 + Math.floor(Math.sin(i * 1.3 + 1) * 1.5 + 1.5),
 }));
 
-export default function CityLoadingAnimation({ retryAttempt, maxRetries }: Props) {
+export default function CityLoadingAnimation({ retryAttempt, maxRetries, stage }: Props) {
   const [msgIndex, setMsgIndex] = useState(0);
   const [dots, setDots] = useState("");
   const retryBannerRef = useRef<HTMLDivElement>(null);
@@ -340,6 +353,12 @@ export default function CityLoadingAnimation({ retryAttempt, maxRetries }: Props
         {BUILDING_MESSAGES[msgIndex]}
         {dots}
       </div>
+      <div
+        className="mt-1 text-xs relative z-[4] transition-colors duration-[3000ms]"
+        style={{ color: sunriseGlow > 0.5 ? "#5c4630" : "#94a3b8" }}
+      >
+        {STAGE_LABELS[stage]}
+      </div>
 
       {/* Retry banner */}
       {isRetrying && (
@@ -1,6 +1,18 @@
 import { useEffect, useRef, useState, useCallback } from "react";
 import maplibregl from "maplibre-gl";
-import type { Bounds } from "./types";
+import type { ModelAspect, Selection, SelectionShape } from "./types";
+import {
+  computeScale,
+  fitSelection,
+  latLonToLocalMetres,
+  MODEL_ASPECTS,
+  MODEL_SIZE_MM,
+  MODEL_SIZES_MM,
+  ringArea,
+  shapeSelection,
+  simplifyRing,
+} from "./geometryUtils";
+import { DATA_FILE_EXTENSIONS } from "./osmFileImport";
 
 import "maplibre-gl/dist/maplibre-gl.css";
 
@@ -9,18 +21,26 @@ interface SearchResult {
   lat: string;
   lon: string;
   boundingbox: [string, string, string, string];
+  osm_type?: "node" | "way" | "relation";
+  osm_id?: number;
 }
 
 interface Props {
-  onBoundsSelected: (bounds: Bounds, locationName?: string, bearing?: number) => void;
+  onAreaSelected: (selection: Selection, locationName?: string) => void;
   /** When controlled by a tab layout, signals whether this pane is visible. */
   visible?: boolean;
   /** True while data is being fetched — disables generate button. */
   loading?: boolean;
+  /** Build the framed area from a local OSM / GeoJSON file instead of fetching it. */
+  onFileSelected?: (selection: Selection, file: File) => void;
 }
 
-/** Minimum zoom level required to generate a preview / place an order. */
-const MIN_ZOOM_FOR_GENERATE = Number(import.meta.env.VITE_MIN_ZOOM_FOR_GENERATE) || 12;
+/**
+ * Largest area (longest side, km) that can be generated / ordered. Taken
+ * from the selection's ground size rather than the map zoom, so a whole
+ * borough's boundary — fitted at a low zoom — still qualifies.
+ */
+const MAX_SELECTION_KM = Number(import.meta.env.VITE_MAX_SELECTION_KM) || 20;
 
 /** Cities with dense, interesting geometry that look great as 3D prints. */
 const SHOWCASE_CITIES: { lng: number; lat: number; zoom: number; bearing: number }[] = [
@@ -36,51 +56,204 @@ const SHOWCASE_CITIES: { lng: number; lat: number; zoom: number; bearing: number
   { lng: -1.8904, lat: 52.4862, zoom: 15.5, bearing: 0 },      // Birmingham city centre — canal basin area
 ];
 
+/** Choices in the shape picker; "polygon" is drawn point by point on the map */
+const SHAPE_OPTIONS: { value: SelectionShape; label: string }[] = [
+  { value: "rectangle", label: "Rectangle" },
+  { value: "circle", label: "Circle" },
+  { value: "hexagon", label: "Hexagon" },
+  { value: "polygon", label: "Draw" },
+];
+
+/** Formats for a rectangular frame; circles and hexagons are always framed square */
+const ASPECT_OPTIONS: { value: ModelAspect; label: string }[] = [
+  { value: "square", label: "1:1" },
+  { value: "4:3", label: "4:3" },
+  { value: "2:1", label: "2:1" },
+];
+
+const SIZE_OPTIONS = MODEL_SIZES_MM.map((mm) => ({ value: mm, label: `${mm / 10} cm` }));
+
+/** Centimetres for display, to the nearest millimetre */
+function cm(mm: number): string {
+  return String(Math.round(mm) / 10);
+}
+
+/** A row of toggle buttons over the map, one of them active */
+function MapPicker<T extends string | number>({
+  options,
+  value,
+  onChange,
+}: {
+  options: { value: T; label: string }[];
+  value: T;
+  onChange: (value: T) => void;
+}) {
+  return (
+    <div className="flex bg-white/95 rounded-md shadow-md overflow-hidden border border-gray-300">
+      {options.map((o) => (
+        <button
+          key={o.value}
+          onClick={() => onChange(o.value)}
+          aria-pressed={value === o.value}
+          className={`px-3 py-2 text-[13px] font-medium border-none cursor-pointer min-h-[36px] transition-colors ${
+            value === o.value ? "bg-blue-500 text-white" : "bg-transparent text-gray-700 hover:bg-gray-100"
+          }`}
+        >
+          {o.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+/** Pointy-topped hexagon inscribed in the frame, in frame percent (matches shapeSelection) */
+const HEXAGON_POINTS = "50,0 93.3,25 93.3,75 50,100 6.7,75 6.7,25";
+
+/**
+ * Tolerance (degrees, roughly 30 m) Nominatim simplifies boundaries to —
+ * plenty for a print, and it keeps the Overpass polygon filter short.
+ */
+const BOUNDARY_SIMPLIFY_DEG = 0.0003;
+
+/**
+ * Most corners a boundary outline keeps. It goes into the Overpass
+ * polygon filter (once per query statement), the checkout metadata and
+ * the cache's coverage check, so islands and coastlines with thousands
+ * of points are simplified further until they fit.
+ */
+const MAX_BOUNDARY_POINTS = 300;
+
+/** Outlines with more corners than this are boundaries, not drawn by hand — skip their markers */
+const MAX_CORNER_MARKERS = 50;
+
+/** Drawn outline so far as GeoJSON: its corner points, plus the line or area they make */
+function drawnAreaGeoJson(points: [number, number][]): GeoJSON.FeatureCollection {
+  const coords = points.map(([lat, lon]) => [lon, lat]);
+  const markers = coords.length <= MAX_CORNER_MARKERS ? coords : [];
+  const features: GeoJSON.Feature[] = markers.map((c) => ({
+    type: "Feature",
+    properties: {},
+    geometry: { type: "Point", coordinates: c },
+  }));
+  if (coords.length === 2) {
+    features.push({ type: "Feature", properties: {}, geometry: { type: "LineString", coordinates: coords } });
+  } else if (coords.length >= 3) {
+    features.push({
+      type: "Feature",
+      properties: {},
+      geometry: { type: "Polygon", coordinates: [[...coords, coords[0]]] },
+    });
+  }
+  return { type: "FeatureCollection", features };
+}
+
+/**
+ * Fetch the outline of an OSM relation (a borough, district, island…)
+ * from Nominatim as a [lat, lon] ring. Of a multipolygon only the
+ * largest part is kept, and inner rings are ignored.
+ */
+async function fetchBoundary(osmId: number): Promise<[number, number][]> {
+  const res = await fetch(
+    `https://nominatim.openstreetmap.org/lookup?format=json&osm_ids=R${osmId}` +
+      `&polygon_geojson=1&polygon_threshold=${BOUNDARY_SIMPLIFY_DEG}`,
+    { headers: { Accept: "application/json" } }
+  );
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  const [place]: { geojson?: GeoJSON.Geometry }[] = await res.json();
+  const geometry = place?.geojson;
+  const rings =
+    geometry?.type === "Polygon"
+      ? [geometry.coordinates[0]]
+      : geometry?.type === "MultiPolygon"
+        ? geometry.coordinates.map((part) => part[0])
+        : [];
+  if (rings.length === 0) throw new Error("No boundary polygon for this place");
+
+  const area = (ring: GeoJSON.Position[]) => Math.abs(ringArea(ring.map(([x, y]): [number, number] => [x, y])));
+  const largest = rings.reduce((a, b) => (area(b) > area(a) ? b : a));
+  // GeoJSON rings repeat their first position at the end
+  const ring = largest.slice(0, -1).map(([lon, lat]): [number, number] => [lat, lon]);
+  // Coarser each time, from the full ring; capped, as simplifyRing gives
+  // the ring back untouched once too little of it would be left
+  let outline = ring;
+  for (let tolerance = BOUNDARY_SIMPLIFY_DEG; outline.length > MAX_BOUNDARY_POINTS && tolerance < 1; tolerance *= 1.5) {
+    outline = simplifyRing(ring, tolerance) as [number, number][];
+  }
+  return outline;
+}
+
 /**
  * Interactive map with viewport-frame area selection.
  *
- * A fixed selection rectangle overlays the map. The user pans & zooms
- * to frame the area they want, then taps "Generate Preview" to capture
- * the bounds. Works naturally on both touch and mouse devices.
+ * A fixed selection frame overlays the map — a square, or a circle or
+ * hexagon cut out of it. The user pans & zooms to frame the area they
+ * want, then taps "Generate Preview" to capture it. In draw mode the
+ * frame gives way to an outline the user taps out on the map instead.
+ * Works naturally on both touch and mouse devices.
  */
-export default function MapSelector({ onBoundsSelected, visible, loading }: Props) {
+export default function MapSelector({ onAreaSelected, visible, loading, onFileSelected }: Props) {
   const containerRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const mapRef = useRef<maplibregl.Map | null>(null);
   const frameRef = useRef<HTMLDivElement>(null);
   const dimensionsRef = useRef<HTMLDivElement>(null);
   const mapAreaRef = useRef<HTMLDivElement>(null);
 
+  // Selection shape, and the [lat, lon] points of a drawn outline. Mirrored
+  // into refs for the map event handlers, which are bound only once
+  const [shape, setShape] = useState<SelectionShape>("rectangle");
+  const [drawPoints, setDrawPoints] = useState<[number, number][]>([]);
+  const shapeRef = useRef(shape);
+  shapeRef.current = shape;
+  const drawPointsRef = useRef(drawPoints);
+  drawPointsRef.current = drawPoints;
+
+  // Print format: the model's longest side, and the frame's proportions
+  const [sizeMm, setSizeMm] = useState(MODEL_SIZE_MM);
+  const [aspect, setAspect] = useState<ModelAspect>("square");
+  const sizeMmRef = useRef(sizeMm);
+  sizeMmRef.current = sizeMm;
+  const frameAspect = shape === "rectangle" ? MODEL_ASPECTS[aspect] : 1;
+  const frameAspectRef = useRef(frameAspect);
+  frameAspectRef.current = frameAspect;
+
   // Search state
   const [searchQuery, setSearchQuery] = useState("");
   const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
   const [searchLoading, setSearchLoading] = useState(false);
   const [showResults, setShowResults] = useState(false);
+  const [boundaryLoading, setBoundaryLoading] = useState(false);
+  const [boundaryError, setBoundaryError] = useState<string | null>(null);
   const searchTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
-  // Zoom tracking — drives the "too far out" UI
-  const [currentZoom, setCurrentZoom] = useState(13);
-  const tooFarOut = currentZoom < MIN_ZOOM_FOR_GENERATE;
-  const prevTooFarOutRef = useRef(tooFarOut);
+  // Selection size tracking — drives the "too large" UI
+  const [tooLarge, setTooLarge] = useState(false);
+  const prevTooLargeRef = useRef(tooLarge);
 
-  // Haptic feedback when crossing the zoom threshold (mobile)
+  // Haptic feedback when crossing the size limit (mobile)
   useEffect(() => {
-    if (tooFarOut !== prevTooFarOutRef.current) {
-      prevTooFarOutRef.current = tooFarOut;
+    if (tooLarge !== prevTooLargeRef.current) {
+      prevTooLargeRef.current = tooLarge;
       if (navigator.vibrate) {
         navigator.vibrate(15);
       }
     }
-  }, [tooFarOut]);
+  }, [tooLarge]);
 
-  // ---- Dimensions display (updated directly on DOM for perf) ----
-  const updateDimensions = useCallback(() => {
+  // ---- The selection the current view would generate ----
+  const currentSelection = useCallback((): Selection | null => {
     const map = mapRef.current;
     const frame = frameRef.current;
-    const dimEl = dimensionsRef.current;
-    if (!map || !frame || !dimEl) return;
+    if (!map || !frame) return null;
+
+    const sizeMm = sizeMmRef.current;
+    if (shapeRef.current === "polygon") {
+      const points = drawPointsRef.current;
+      return points.length >= 3 ? { ...fitSelection(points, map.getBearing()), sizeMm } : null;
+    }
 
     const frameRect = frame.getBoundingClientRect();
-    if (frameRect.width === 0 || frameRect.height === 0) return;
+    if (frameRect.width === 0 || frameRect.height === 0) return null;
 
     const mapRect = map.getContainer().getBoundingClientRect();
     const left = frameRect.left - mapRect.left;
@@ -88,29 +261,49 @@ export default function MapSelector({ onBoundsSelected, visible, loading }: Prop
     const right = frameRect.right - mapRect.left;
     const bottom = frameRect.bottom - mapRect.top;
 
-    const corners = [
-      map.unproject([left, top]),
-      map.unproject([right, top]),
-      map.unproject([right, bottom]),
-      map.unproject([left, bottom]),
-    ];
-    const south = Math.min(...corners.map((c) => c.lat));
-    const north = Math.max(...corners.map((c) => c.lat));
-    const west = Math.min(...corners.map((c) => c.lng));
-    const east = Math.max(...corners.map((c) => c.lng));
-
-    const latDiff = north - south;
-    const lngDiff = east - west;
-    const avgLat = (south + north) / 2;
-    const metersH = latDiff * 111320;
-    const metersW = lngDiff * 111320 * Math.cos((avgLat * Math.PI) / 180);
+    // The frame exactly as drawn: its centre, its size measured across
+    // the middle, and the map rotation it was drawn at. Sizes are taken in
+    // the selection's own projection rather than maplibre's spherical
+    // distances, so the model's edges land on the frame's
+    const cx = (left + right) / 2;
+    const cy = (top + bottom) / 2;
+    const center = map.unproject([cx, cy]);
+    const origin: Selection = { center: [center.lat, center.lng], widthM: 0, heightM: 0, bearing: map.getBearing() };
+    const across = (a: [number, number], b: [number, number]) => {
+      const p = map.unproject(a);
+      const q = map.unproject(b);
+      const [x0, y0] = latLonToLocalMetres(p.lat, p.lng, origin);
+      const [x1, y1] = latLonToLocalMetres(q.lat, q.lng, origin);
+      return Math.hypot(x1 - x0, y1 - y0);
+    };
+    const selection: Selection = {
+      ...origin,
+      widthM: across([left, cy], [right, cy]),
+      heightM: across([cx, top], [cx, bottom]),
+    };
+    return { ...shapeSelection(selection, shapeRef.current), sizeMm };
+  }, []);
+
+  // ---- Dimensions display (updated directly on DOM for perf) ----
+  const updateDimensions = useCallback(() => {
+    const dimEl = dimensionsRef.current;
+    if (!dimEl) return;
 
+    const selection = currentSelection();
+    setTooLarge(selection !== null && Math.max(selection.widthM, selection.heightM) > MAX_SELECTION_KM * 1000);
+    if (!selection) {
+      dimEl.textContent = shapeRef.current === "polygon" ? "Tap the map to outline your area" : "";
+      return;
+    }
     const fmt = (m: number) =>
       m >= 1000 ? `${(m / 1000).toFixed(1)}km` : `${Math.round(m)}m`;
-    dimEl.textContent = `${fmt(metersW)} × ${fmt(metersH)}`;
-  }, []);
+    const { modelWidthMm, modelDepthMm } = computeScale(selection);
+    dimEl.textContent =
+      `${fmt(selection.widthM)} × ${fmt(selection.heightM)}` +
+      ` · ${cm(modelWidthMm)} × ${cm(modelDepthMm)} cm print`;
+  }, [currentSelection]);
 
-  // ---- Keep selection frame as a perfect square ----
+  // ---- Fit the selection frame to the chosen format ----
   const updateFrameLayout = useCallback(() => {
     const container = mapAreaRef.current;
     const frame = frameRef.current;
@@ -123,18 +316,26 @@ export default function MapSelector({ onBoundsSelected, visible, loading }: Prop
     const padding = 0.12;
     const maxW = width * (1 - 2 * padding);
     const maxH = height * (1 - 2 * padding);
-    const size = Math.min(maxW, maxH);
+    const ratio = frameAspectRef.current;
+    const frameW = Math.min(maxW, maxH * ratio);
+    const frameH = frameW / ratio;
 
-    frame.style.width = `${size}px`;
-    frame.style.height = `${size}px`;
-    frame.style.top = `${(height - size) / 2}px`;
-    frame.style.left = `${(width - size) / 2}px`;
+    frame.style.width = `${frameW}px`;
+    frame.style.height = `${frameH}px`;
+    frame.style.top = `${(height - frameH) / 2}px`;
+    frame.style.left = `${(width - frameW) / 2}px`;
 
     if (dimEl) {
-      dimEl.style.top = `${(height + size) / 2 + 8}px`;
+      dimEl.style.top = `${(height + frameH) / 2 + 8}px`;
     }
   }, []);
 
+  // Reshape the frame first, so the dimensions read from it are current
+  useEffect(() => {
+    updateFrameLayout();
+    updateDimensions();
+  }, [frameAspect, sizeMm, shape, drawPoints, updateFrameLayout, updateDimensions]);
+
   useEffect(() => {
     const container = mapAreaRef.current;
     if (!container) return;
@@ -182,6 +383,7 @@ export default function MapSelector({ onBoundsSelected, visible, loading }: Prop
   const handleSearchInput = useCallback(
     (value: string) => {
       setSearchQuery(value);
+      setBoundaryError(null);
       if (searchTimeoutRef.current) clearTimeout(searchTimeoutRef.current);
       searchTimeoutRef.current = setTimeout(() => handleSearch(value), 400);
     },
@@ -200,6 +402,36 @@ export default function MapSelector({ onBoundsSelected, visible, loading }: Prop
     });
   }, []);
 
+  // ---- Use a search result's own boundary as the selection outline ----
+  const handleUseBoundary = useCallback(async (result: SearchResult) => {
+    if (result.osm_type !== "relation" || result.osm_id == null) return;
+    setShowResults(false);
+    setSearchQuery(result.display_name);
+    setBoundaryError(null);
+    setBoundaryLoading(true);
+    try {
+      const outline = await fetchBoundary(result.osm_id);
+      setShape("polygon");
+      setDrawPoints(outline);
+      const map = mapRef.current;
+      if (!map) return;
+      const lats = outline.map(([lat]) => lat);
+      const lons = outline.map(([, lon]) => lon);
+      map.fitBounds(
+        [
+          [Math.min(...lons), Math.min(...lats)],
+          [Math.max(...lons), Math.max(...lats)],
+        ],
+        { padding: 40, bearing: map.getBearing(), duration: 1500 }
+      );
+    } catch (err) {
+      console.error("Boundary lookup failed:", err);
+      setBoundaryError("Couldn't load this place's boundary — try again, or frame it by hand");
+    } finally {
+      setBoundaryLoading(false);
+    }
+  }, []);
+
   const handleUseLocation = useCallback(() => {
     if (!navigator.geolocation) return;
     navigator.geolocation.getCurrentPosition(
@@ -302,10 +534,42 @@ export default function MapSelector({ onBoundsSelected, visible, loading }: Prop
 
     map.on("move", updateDimensions);
     map.on("load", updateDimensions);
+
+    // The outline being drawn, kept on the map so it pans and zooms with it
+    map.on("load", () => {
+      map.addSource("drawn-area", { type: "geojson", data: drawnAreaGeoJson([]) });
+      map.addLayer({
+        id: "drawn-area-fill",
+        type: "fill",
+        source: "drawn-area",
+        filter: ["==", "$type", "Polygon"],
+        paint: { "fill-color": "#3b82f6", "fill-opacity": 0.15 },
+      });
+      map.addLayer({
+        id: "drawn-area-line",
+        type: "line",
+        source: "drawn-area",
+        filter: ["!=", "$type", "Point"],
+        paint: { "line-color": "#3b82f6", "line-width": 2.5, "line-dasharray": [2, 1.5] },
+      });
+      map.addLayer({
+        id: "drawn-area-points",
+        type: "circle",
+        source: "drawn-area",
+        filter: ["==", "$type", "Point"],
+        paint: {
+          "circle-radius": 4,
+          "circle-color": "#3b82f6",
+          "circle-stroke-color": "#ffffff",
+          "circle-stroke-width": 1.5,
+        },
+      });
+    });
+    map.on("click", (e) => {
+      if (shapeRef.current !== "polygon") return;
+      setDrawPoints((points) => [...points, [e.lngLat.lat, e.lngLat.lng]]);
+    });
     map.on("moveend", updateHash);
-    map.on("zoom", () => setCurrentZoom(map.getZoom()));
-    // Seed initial zoom into state once the map is ready
-    map.on("load", () => setCurrentZoom(map.getZoom()));
 
     return () => {
       map.remove();
@@ -313,38 +577,41 @@ export default function MapSelector({ onBoundsSelected, visible, loading }: Prop
     };
   }, [updateDimensions]);
 
-  // ---- Generate bounds from current frame position ----
-  const handleGenerate = useCallback(() => {
+  // ---- Show the drawn outline only while drawing ----
+  useEffect(() => {
     const map = mapRef.current;
-    const frame = frameRef.current;
-    if (!map || !frame) return;
-
-    const frameRect = frame.getBoundingClientRect();
-    if (frameRect.width === 0 || frameRect.height === 0) return;
+    const source = map?.getSource("drawn-area") as maplibregl.GeoJSONSource | undefined;
+    source?.setData(drawnAreaGeoJson(shape === "polygon" ? drawPoints : []));
+    if (map) map.getCanvas().style.cursor = shape === "polygon" ? "crosshair" : "";
+  }, [shape, drawPoints]);
 
-    const mapRect = map.getContainer().getBoundingClientRect();
-    const left = frameRect.left - mapRect.left;
-    const top = frameRect.top - mapRect.top;
-    const right = frameRect.right - mapRect.left;
-    const bottom = frameRect.bottom - mapRect.top;
-
-    const corners = [
-      map.unproject([left, top]),
-      map.unproject([right, top]),
-      map.unproject([right, bottom]),
-      map.unproject([left, bottom]),
-    ];
-    const south = Math.min(...corners.map((c) => c.lat));
-    const north = Math.max(...corners.map((c) => c.lat));
-    const west = Math.min(...corners.map((c) => c.lng));
-    const east = Math.max(...corners.map((c) => c.lng));
-
-    const bounds: Bounds = [south, west, north, east];
+  // ---- Generate the selection from current frame position ----
+  const handleGenerate = useCallback(() => {
+    const selection = currentSelection();
+    if (!selection) return;
     // Extract a short location name from the search query
     const name = searchQuery.split(",")[0].trim() || "";
-    const bearing = map.getBearing();
-    onBoundsSelected(bounds, name, bearing);
-  }, [onBoundsSelected, searchQuery]);
+    onAreaSelected(selection, name);
+  }, [currentSelection, onAreaSelected, searchQuery]);
+
+  // ---- Build the framed area from a local data file ----
+  const handleFileChosen = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      // Clear so choosing the same file again still fires a change
+      e.target.value = "";
+      const selection = currentSelection();
+      if (!file || !selection || !onFileSelected) return;
+      onFileSelected(selection, file);
+    },
+    [currentSelection, onFileSelected]
+  );
+
+  const drawing = shape === "polygon";
+  const cannotGenerate = loading || tooLarge || (drawing && drawPoints.length < 3);
+  // A file isn't limited by what Overpass can serve, so any size will do
+  const cannotLoadFile = loading || (drawing && drawPoints.length < 3);
+  const frameColor = tooLarge ? "#f59e0b" : "#3b82f6";
 
   return (
     <div className="flex flex-col h-full w-full">
@@ -398,20 +665,37 @@ export default function MapSelector({ onBoundsSelected, visible, loading }: Prop
               ✕
             </button>
           )}
-          {searchLoading && (
+          {(searchLoading || boundaryLoading) && (
             <span className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-gray-400">
-              searching...
+              {boundaryLoading ? "loading boundary..." : "searching..."}
             </span>
           )}
+          {boundaryError && !boundaryLoading && (
+            <div className="absolute top-full left-0 right-0 mt-1 px-3 py-2 bg-red-50 text-red-700 text-xs border border-red-200 rounded-md z-[1000]">
+              {boundaryError}
+            </div>
+          )}
           {showResults && searchResults.length > 0 && (
             <div className="absolute top-full left-0 right-0 bg-white border border-gray-300 rounded-b-md shadow-lg z-[1000] max-h-[250px] overflow-y-auto">
               {searchResults.map((r, i) => (
                 <div
                   key={i}
                   onClick={() => handleSelectResult(r)}
-                  className="px-4 py-3 cursor-pointer text-sm min-h-[44px] flex items-center hover:bg-gray-100 border-b border-gray-100 last:border-b-0"
+                  className="px-4 py-3 cursor-pointer text-sm min-h-[44px] flex items-center gap-3 hover:bg-gray-100 border-b border-gray-100 last:border-b-0"
                 >
-                  {r.display_name}
+                  <span className="flex-1">{r.display_name}</span>
+                  {r.osm_type === "relation" && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleUseBoundary(r);
+                      }}
+                      title="Print exactly this area, cut to its boundary"
+                      className="px-2.5 py-1.5 text-xs font-medium text-blue-600 bg-blue-50 border border-blue-200 rounded-md cursor-pointer shrink-0 hover:bg-blue-100"
+                    >
+                      Use boundary
+                    </button>
+                  )}
                 </div>
               ))}
             </div>
@@ -427,7 +711,9 @@ export default function MapSelector({ onBoundsSelected, visible, loading }: Prop
       >
         <div ref={containerRef} className="w-full h-full" />
 
-        {/* Selection frame — always square, darkened outside, clear inside */}
+        {/* Selection frame — always square, darkened outside, clear inside.
+            A circle rounds it off; a hexagon is drawn inside it; in draw
+            mode it stays invisible, only placing the dimensions badge */}
         <div
           ref={frameRef}
           className="absolute pointer-events-none z-[1] rounded-sm transition-[border-color] duration-300"
@@ -437,10 +723,60 @@ export default function MapSelector({ onBoundsSelected, visible, loading }: Prop
             left: "12%",
             width: "76%",
             height: "76%",
-            border: `2.5px dashed ${tooFarOut ? "#f59e0b" : "#3b82f6"}`,
-            boxShadow: "0 0 0 9999px rgba(0, 0, 0, 0.25)",
+            ...((shape === "rectangle" || shape === "circle") && {
+              border: `2.5px dashed ${frameColor}`,
+              boxShadow: "0 0 0 9999px rgba(0, 0, 0, 0.25)",
+            }),
+            ...(shape === "circle" && { borderRadius: "50%" }),
           }}
-        />
+        >
+          {shape === "hexagon" && (
+            <svg
+              className="absolute inset-0 w-full h-full overflow-visible"
+              viewBox="0 0 100 100"
+              preserveAspectRatio="none"
+            >
+              <path
+                d={`M-10000,-10000 H10100 V10100 H-10000 Z M${HEXAGON_POINTS.replace(/ /g, " L")} Z`}
+                fillRule="evenodd"
+                fill="rgba(0, 0, 0, 0.25)"
+              />
+              <polygon
+                points={HEXAGON_POINTS}
+                fill="none"
+                stroke={frameColor}
+                strokeWidth={2.5}
+                strokeDasharray="6 4"
+                vectorEffect="non-scaling-stroke"
+              />
+            </svg>
+          )}
+        </div>
+
+        {/* Shape and print format pickers, plus undo / clear while drawing */}
+        <div className="absolute top-3 left-3 z-[3] flex flex-col items-start gap-2">
+          <MapPicker options={SHAPE_OPTIONS} value={shape} onChange={setShape} />
+          <div className="flex gap-2">
+            <MapPicker options={SIZE_OPTIONS} value={sizeMm} onChange={setSizeMm} />
+            {shape === "rectangle" && <MapPicker options={ASPECT_OPTIONS} value={aspect} onChange={setAspect} />}
+          </div>
+          {drawing && drawPoints.length > 0 && (
+            <div className="flex gap-2">
+              <button
+                onClick={() => setDrawPoints((points) => points.slice(0, -1))}
+                className="px-3 py-1.5 text-[13px] bg-white/95 border border-gray-300 rounded-md shadow-md cursor-pointer hover:bg-gray-100"
+              >
+                Undo point
+              </button>
+              <button
+                onClick={() => setDrawPoints([])}
+                className="px-3 py-1.5 text-[13px] bg-white/95 border border-gray-300 rounded-md shadow-md cursor-pointer hover:bg-gray-100"
+              >
+                Clear
+              </button>
+            </div>
+          )}
+        </div>
 
         {/* Dimensions badge — vertical position set by updateFrameLayout */}
         <div
@@ -448,10 +784,10 @@ export default function MapSelector({ onBoundsSelected, visible, loading }: Prop
           className="absolute left-1/2 -translate-x-1/2 bg-black/70 backdrop-blur-lg text-white px-3.5 py-1.5 rounded-md text-[13px] font-medium tracking-wide pointer-events-none z-[2] whitespace-nowrap"
         />
 
-        {/* "Zoom in" banner — shown when too far out to generate */}
-        {tooFarOut && (
+        {/* "Too large" banner — shown when the area is over the size limit */}
+        {tooLarge && (
           <div className="absolute top-3 left-1/2 -translate-x-1/2 bg-amber-500/[0.92] backdrop-blur-lg text-[#1a1a2e] px-5 py-2.5 rounded-lg text-sm font-semibold pointer-events-none z-10 whitespace-nowrap shadow-lg text-center">
-            Zoom in closer to generate a model
+            Areas up to {MAX_SELECTION_KM} km across can be generated
           </div>
         )}
       </div>
@@ -470,20 +806,50 @@ export default function MapSelector({ onBoundsSelected, visible, loading }: Prop
             <line x1="16" y1="6" x2="16" y2="22" />
           </svg>
         </button>
+        {onFileSelected && (
+          <>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={cannotLoadFile}
+              title="Use a map data file (.osm, .osm.pbf, .geojson) for the framed area"
+              className="p-2.5 bg-white/10 border border-white/20 rounded-md cursor-pointer shrink-0 min-h-[44px] min-w-[44px] flex items-center justify-center text-white/70 hover:bg-white/20 hover:text-white transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z" />
+                <polyline points="14 2 14 8 20 8" />
+                <line x1="12" y1="18" x2="12" y2="12" />
+                <polyline points="9 15 12 12 15 15" />
+              </svg>
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={DATA_FILE_EXTENSIONS}
+              onChange={handleFileChosen}
+              className="hidden"
+            />
+          </>
+        )}
         <span
           className={`flex-1 text-[13px] leading-snug transition-colors duration-300 ${
-            tooFarOut ? "text-amber-500" : "text-gray-400"
+            tooLarge ? "text-amber-500" : "text-gray-400"
           }`}
         >
-          {tooFarOut
-            ? "Zoom in to select an area for printing"
-            : "Pan & zoom to frame your area"}
+          {tooLarge
+            ? drawing
+              ? `Outline an area under ${MAX_SELECTION_KM} km across to print`
+              : "Zoom in to select an area for printing"
+            : drawing
+              ? drawPoints.length < 3
+                ? "Tap the map to place at least three corners"
+                : "Keep tapping to add corners, then generate"
+              : "Pan & zoom to frame your area"}
         </span>
         <button
           onClick={handleGenerate}
-          disabled={loading || tooFarOut}
+          disabled={cannotGenerate}
           className={`px-6 py-3 text-white border-none rounded-md text-[15px] font-semibold whitespace-nowrap min-h-[48px] transition-all duration-200 ${
-            loading || tooFarOut
+            cannotGenerate
               ? "bg-gray-500 cursor-not-allowed opacity-80"
               : "bg-blue-500 cursor-pointer hover:bg-blue-600"
           }`}
@@ -1,10 +1,17 @@
-import { useMemo, useEffect, useRef, useCallback } from "react";
+import { useMemo, useEffect, useRef, useCallback, useState } from "react";
 import { Canvas, useThree, useFrame } from "@react-three/fiber";
 import { OrbitControls, ContactShadows } from "@react-three/drei";
 import * as THREE from "three";
-import { mergeGeometries } from "three/examples/jsm/utils/BufferGeometryUtils.js";
-import type { SceneData, Polygon, RoadData } from "./types";
-import { BASE_THICKNESS_MM } from "./geometryUtils";
+import type { SceneData } from "./types";
+import { BASE_THICKNESS_MM, buildingCount, MODEL_SIZE_MM } from "./geometryUtils";
+import {
+  buildPreviewBuffers,
+  geometryFromBuffers,
+  LAYER_COLORS,
+  type GeometryBuffers,
+  type PreviewLayer,
+} from "./modelGeometry";
+import { buildPreviewInWorker } from "./sceneWorkerClient";
 
 /**
  * Aggressively dispose the WebGL renderer when the Canvas unmounts.
@@ -24,138 +31,117 @@ function DisposeOnUnmount() {
   return null;
 }
 
-// ---- Helpers to turn 2D polygon outlines into three.js geometry ----
+// ---- Merged geometry components (one draw call each) ----
 
-function polygonToShape(poly: Polygon): THREE.Shape {
-  const shape = new THREE.Shape();
-  for (let i = 0; i < poly.length; i++) {
-    const [x, y] = poly[i];
-    if (i === 0) shape.moveTo(x, y);
-    else shape.lineTo(x, y);
-  }
-  shape.closePath();
-  return shape;
-}
+type PreviewGeometry = Partial<Record<PreviewLayer, THREE.BufferGeometry>>;
 
-// ---- Merged geometry components (one draw call each) ----
+/**
+ * The scene's preview meshes, built in the scene worker. The previous
+ * scene's meshes stay up until the new ones arrive, so restyling the
+ * model doesn't flash an empty base; null until the first set is ready.
+ */
+function usePreviewGeometry(sceneData: SceneData): PreviewGeometry | null {
+  const [geometry, setGeometry] = useState<PreviewGeometry | null>(null);
 
-function MergedBuildings({ buildings }: { buildings: SceneData["buildings"] }) {
-  const geometry = useMemo(() => {
-    if (buildings.length === 0) return null;
-    const geos: THREE.ExtrudeGeometry[] = [];
-    for (const b of buildings) {
-      const shape = polygonToShape(b.polygon);
-      geos.push(new THREE.ExtrudeGeometry(shape, { depth: b.heightMm, bevelEnabled: false }));
-    }
-    const merged = mergeGeometries(geos, false);
-    for (const g of geos) g.dispose();
-    return merged;
-  }, [buildings]);
+  useEffect(() => {
+    const controller = new AbortController();
+    const { signal } = controller;
+    buildPreviewInWorker(sceneData, signal)
+      .catch((err) => {
+        if (signal.aborted) return null;
+        console.warn("Scene worker failed, building the preview here instead:", err);
+        return buildPreviewBuffers(sceneData);
+      })
+      .then((buffers) => {
+        // Superseded by a newer scene, or unmounted
+        if (!buffers || signal.aborted) return;
+        const built: PreviewGeometry = {};
+        for (const [layer, b] of Object.entries(buffers) as [PreviewLayer, GeometryBuffers][]) {
+          built[layer] = geometryFromBuffers(b);
+        }
+        setGeometry(built);
+      });
+    return () => controller.abort();
+  }, [sceneData]);
 
+  // Dispose each set of meshes once it's replaced or unmounted
   useEffect(() => {
-    return () => { geometry?.dispose(); };
+    return () => {
+      for (const g of Object.values(geometry ?? {})) g.dispose();
+    };
   }, [geometry]);
 
+  return geometry;
+}
+
+function MergedBuildings({ geometry }: { geometry?: THREE.BufferGeometry }) {
   if (!geometry) return null;
   return (
-    <mesh geometry={geometry} rotation={[-Math.PI / 2, 0, 0]} position={[0, BASE_THICKNESS_MM / 2, 0]} castShadow>
-      <meshStandardMaterial color="#d0d0d0" roughness={0.65} metalness={0.05} />
+    <mesh geometry={geometry} castShadow>
+      <meshStandardMaterial color={LAYER_COLORS.buildings} roughness={0.65} metalness={0.05} />
     </mesh>
   );
 }
 
-function MergedRoads({ roads }: { roads: SceneData["roads"] }) {
-  const geometry = useMemo(() => {
-    if (roads.length === 0) return null;
-    const geos: THREE.ExtrudeGeometry[] = [];
-    for (const r of roads) {
-      const depth = r.kind === "major" ? 0.35 : r.kind === "minor" ? 0.25 : r.kind === "railway" ? 0.3 : 0.15;
-      const shape = polygonToShape(r.polygon);
-      geos.push(new THREE.ExtrudeGeometry(shape, { depth, bevelEnabled: false }));
-    }
-    const merged = mergeGeometries(geos, false);
-    for (const g of geos) g.dispose();
-    return merged;
-  }, [roads]);
-
-  useEffect(() => {
-    return () => { geometry?.dispose(); };
-  }, [geometry]);
-
+function MergedRoads({ geometry }: { geometry?: THREE.BufferGeometry }) {
   if (!geometry) return null;
   return (
-    <mesh geometry={geometry} rotation={[-Math.PI / 2, 0, 0]} position={[0, BASE_THICKNESS_MM / 2 + 0.25, 0]}>
-      <meshStandardMaterial color="#808080" roughness={0.85} metalness={0} />
+    <mesh geometry={geometry}>
+      <meshStandardMaterial color={LAYER_COLORS.roads} roughness={0.85} metalness={0} />
     </mesh>
   );
 }
 
-function MergedWater({ water }: { water: SceneData["water"] }) {
-  const geometry = useMemo(() => {
-    if (water.length === 0) return null;
-    const geos: THREE.ExtrudeGeometry[] = [];
-    for (const w of water) {
-      const shape = polygonToShape(w.polygon);
-      if (w.holes) {
-        for (const hole of w.holes) {
-          const holePath = new THREE.Path();
-          for (let i = 0; i < hole.length; i++) {
-            const [x, y] = hole[i];
-            if (i === 0) holePath.moveTo(x, y);
-            else holePath.lineTo(x, y);
-          }
-          holePath.closePath();
-          shape.holes.push(holePath);
-        }
-      }
-      geos.push(new THREE.ExtrudeGeometry(shape, { depth: 0.5, bevelEnabled: false }));
-    }
-    const merged = mergeGeometries(geos, false);
-    for (const g of geos) g.dispose();
-    return merged;
-  }, [water]);
-
-  useEffect(() => {
-    return () => { geometry?.dispose(); };
-  }, [geometry]);
+function MergedWater({ geometry }: { geometry?: THREE.BufferGeometry }) {
+  if (!geometry) return null;
+  return (
+    <mesh geometry={geometry}>
+      <meshStandardMaterial color={LAYER_COLORS.water} roughness={0.2} metalness={0.1} />
+    </mesh>
+  );
+}
 
+function MergedGreenery({ geometry }: { geometry?: THREE.BufferGeometry }) {
   if (!geometry) return null;
   return (
-    <mesh geometry={geometry} rotation={[-Math.PI / 2, 0, 0]} position={[0, BASE_THICKNESS_MM / 2 - 0.3, 0]}>
-      <meshStandardMaterial color="#60a5fa" roughness={0.2} metalness={0.1} />
+    <mesh geometry={geometry} receiveShadow>
+      <meshStandardMaterial color={LAYER_COLORS.greenery} roughness={0.95} metalness={0} />
     </mesh>
   );
 }
 
-function BasePlate({
-  widthMm,
-  depthMm,
-}: {
-  widthMm: number;
-  depthMm: number;
-}) {
-  const frameWidth = 3;
-  const frameHeight = BASE_THICKNESS_MM + 1.5;
+function MergedTrees({ geometry }: { geometry?: THREE.BufferGeometry }) {
+  if (!geometry) return null;
+  return (
+    <mesh geometry={geometry} castShadow receiveShadow>
+      <meshStandardMaterial color={LAYER_COLORS.trees} roughness={0.9} metalness={0} />
+    </mesh>
+  );
+}
 
+/** Base plate (engraved in relief mode, shaped on terrain) plus its frame, and the seams of a tiled print */
+function BasePlate({ geometry }: { geometry: PreviewGeometry }) {
+  const { base, frame, seams } = geometry;
   return (
     <group>
       {/* Main base */}
-      <mesh position={[0, 0, 0]} receiveShadow castShadow>
-        <boxGeometry args={[widthMm, BASE_THICKNESS_MM, depthMm]} />
-        <meshStandardMaterial color="#e5e5e5" roughness={0.4} metalness={0} />
-      </mesh>
-      {/* Frame - 4 sides */}
-      {[
-        { pos: [0, 0, depthMm / 2 + frameWidth / 2] as const, size: [widthMm + frameWidth * 2, frameHeight, frameWidth] as const },
-        { pos: [0, 0, -(depthMm / 2 + frameWidth / 2)] as const, size: [widthMm + frameWidth * 2, frameHeight, frameWidth] as const },
-        { pos: [-(widthMm / 2 + frameWidth / 2), 0, 0] as const, size: [frameWidth, frameHeight, depthMm + frameWidth * 2] as const },
-        { pos: [widthMm / 2 + frameWidth / 2, 0, 0] as const, size: [frameWidth, frameHeight, depthMm + frameWidth * 2] as const },
-      ].map((side, i) => (
-        <mesh key={i} position={[side.pos[0], side.pos[1], side.pos[2]]} castShadow>
-          <boxGeometry args={[side.size[0], side.size[1], side.size[2]]} />
-          <meshStandardMaterial color="#1a1a1a" roughness={0.3} metalness={0.1} />
+      {base && (
+        <mesh geometry={base} receiveShadow castShadow>
+          <meshStandardMaterial color={LAYER_COLORS.base} roughness={0.4} metalness={0} />
         </mesh>
-      ))}
+      )}
+      {/* Frame */}
+      {frame && (
+        <mesh geometry={frame} castShadow>
+          <meshStandardMaterial color={LAYER_COLORS.frame} roughness={0.3} metalness={0.1} />
+        </mesh>
+      )}
+      {/* Where the plates of a tiled print meet */}
+      {seams && (
+        <mesh geometry={seams}>
+          <meshStandardMaterial color={LAYER_COLORS.frame} roughness={0.6} metalness={0} />
+        </mesh>
+      )}
     </group>
   );
 }
@@ -228,9 +214,20 @@ function Table() {
   );
 }
 
-function PlantPot() {
+/** How far the props step aside for a model larger than the default (capped to stay on the table) */
+function propSpread(sceneData: SceneData): number {
+  const half = Math.max(sceneData.modelWidthMm, sceneData.modelDepthMm) / 2;
+  return Math.min(40, Math.max(0, half - MODEL_SIZE_MM / 2));
+}
+
+/** e.g. "200×150mm Print" */
+function printSizeLabel({ modelWidthMm, modelDepthMm }: SceneData): string {
+  return `${Math.round(modelWidthMm)}×${Math.round(modelDepthMm)}mm Print`;
+}
+
+function PlantPot({ spread }: { spread: number }) {
   return (
-    <group position={[160, 0, -90]}>
+    <group position={[160 + spread, 0, -90]}>
       <mesh position={[0, 12, 0]} castShadow>
         <cylinderGeometry args={[14, 11, 24, 16]} />
         <meshStandardMaterial color="#c4956a" roughness={0.8} />
@@ -255,7 +252,7 @@ function PlantPot() {
   );
 }
 
-function Books() {
+function Books({ spread }: { spread: number }) {
   const books = [
     { w: 50, h: 6, d: 35, color: "#2c3e50", y: 3 },
     { w: 48, h: 5, d: 33, color: "#8b4513", y: 8.5 },
@@ -263,7 +260,7 @@ function Books() {
   ];
 
   return (
-    <group position={[-170, 0, -60]} rotation={[0, 0.15, 0]}>
+    <group position={[-170 - spread, 0, -60]} rotation={[0, 0.15, 0]}>
       {books.map((b, i) => (
         <mesh key={i} position={[0, b.y, 0]} castShadow>
           <boxGeometry args={[b.w, b.h, b.d]} />
@@ -354,14 +351,26 @@ export function SceneLighting() {
 
 // ---- Exported scene that can be reused in static angle renders ----
 
-export function CityScene({ sceneData }: { sceneData: SceneData }) {
+export function CityScene({
+  sceneData,
+  onModelReady,
+}: {
+  sceneData: SceneData;
+  /** Called once the model's meshes have arrived from the scene worker */
+  onModelReady?: () => void;
+}) {
+  const geometry = usePreviewGeometry(sceneData);
+  useEffect(() => {
+    if (geometry) onModelReady?.();
+  }, [geometry, onModelReady]);
+
   return (
     <>
       <SceneLighting />
       <Room />
       <Table />
-      <PlantPot />
-      <Books />
+      <PlantPot spread={propSpread(sceneData)} />
+      <Books spread={propSpread(sceneData)} />
       <ContactShadows
         position={[0, -0.5, 0]}
         opacity={0.5}
@@ -370,14 +379,18 @@ export function CityScene({ sceneData }: { sceneData: SceneData }) {
         far={20}
         color="#2a1f14"
       />
-      <group position={[0, BASE_THICKNESS_MM / 2 + 4, 10]}>
-        <BasePlate
-          widthMm={sceneData.modelWidthMm}
-          depthMm={sceneData.modelDepthMm}
-        />
-        <MergedRoads roads={sceneData.roads} />
-        <MergedBuildings buildings={sceneData.buildings} />
-        <MergedWater water={sceneData.water} />
+      {/* Model geometry is Z-up; rotate it into the Y-up scene */}
+      <group position={[0, BASE_THICKNESS_MM / 2 + 4, 10]} rotation={[-Math.PI / 2, 0, 0]}>
+        {geometry && (
+          <>
+            <BasePlate geometry={geometry} />
+            <MergedGreenery geometry={geometry.greenery} />
+            <MergedRoads geometry={geometry.roads} />
+            <MergedTrees geometry={geometry.trees} />
+            <MergedBuildings geometry={geometry.buildings} />
+            <MergedWater geometry={geometry.water} />
+          </>
+        )}
       </group>
     </>
   );
@@ -427,13 +440,17 @@ export function StaticAngleRender({
 
 // ---- Render-to-image capture (one Canvas at a time, memory-friendly) ----
 
-/** Waits a few frames for shadows/effects to settle, then captures the canvas. */
-function FrameCapture({ onCapture }: { onCapture: (url: string) => void }) {
+/**
+ * Once the model is in the scene, waits a few frames for shadows/effects
+ * to settle, then captures the canvas.
+ */
+function FrameCapture({ ready, onCapture }: { ready: boolean; onCapture: (url: string) => void }) {
   const { gl } = useThree();
   const captured = useRef(false);
   const frameCount = useRef(0);
 
   useFrame(() => {
+    if (!ready) return;
     frameCount.current++;
     // Wait 3 frames so shadows + contact shadows fully render
     if (frameCount.current >= 3 && !captured.current) {
@@ -462,6 +479,9 @@ export function CaptureRender({
   cameraTarget?: [number, number, number];
   onCapture: (dataUrl: string) => void;
 }) {
+  const [modelReady, setModelReady] = useState(false);
+  const handleModelReady = useCallback(() => setModelReady(true), []);
+
   return (
     <Canvas
       camera={{ fov: 28, near: 1, far: 5000 }}
@@ -480,8 +500,8 @@ export function CaptureRender({
     >
       <DisposeOnUnmount />
       <StaticCamera position={cameraPosition} target={cameraTarget} />
-      <CityScene sceneData={sceneData} />
-      <FrameCapture onCapture={onCapture} />
+      <CityScene sceneData={sceneData} onModelReady={handleModelReady} />
+      <FrameCapture ready={modelReady} onCapture={onCapture} />
     </Canvas>
   );
 }
@@ -550,9 +570,9 @@ export function ViewerOverlay({ sceneData, onClose }: ViewerOverlayProps) {
 
       {/* Info badge */}
       <div className="absolute bottom-4 left-4 bg-black/70 backdrop-blur-lg text-white px-4 py-2 rounded-lg text-xs tracking-wide z-10">
-        <span className="font-semibold mr-2">200mm Print</span>
+        <span className="font-semibold mr-2">{printSizeLabel(sceneData)}</span>
         <span className="mx-1.5 opacity-40">|</span>
-        {sceneData.buildings.length} buildings
+        {buildingCount(sceneData.buildings)} buildings
       </div>
 
       {/* Drag hint */}
@@ -639,9 +659,9 @@ export default function ModelPreview({ sceneData, loading, error }: Props) {
       </Canvas>
 
       <div className="absolute bottom-4 left-4 bg-black/70 backdrop-blur-lg text-white px-4 py-2 rounded-lg text-xs tracking-wide">
-        <span className="font-semibold mr-2">200mm Print</span>
+        <span className="font-semibold mr-2">{printSizeLabel(sceneData)}</span>
         <span className="mx-1.5 opacity-40">|</span>
-        {sceneData.buildings.length} buildings
+        {buildingCount(sceneData.buildings)} buildings
       </div>
 
       <div className="absolute top-4 right-4 bg-black/45 backdrop-blur-lg text-white/80 px-3 py-1.5 rounded-md text-[11px] tracking-wide">
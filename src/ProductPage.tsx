@@ -1,6 +1,15 @@
 import { useState, useCallback, useEffect, useRef, lazy, Suspense } from "react";
 import CheckoutSection from "./CheckoutSection";
-import type { SceneData, Bounds } from "./types";
+import type { HeightMapping, PlateGrid, SceneData, Selection } from "./types";
+import { buildingCount, MAX_HEIGHT_EXAGGERATION, MODEL_SIZE_MM } from "./geometryUtils";
+import type { PrintMesh } from "./printMesh";
+import {
+  NOZZLE_WIDTH_MM,
+  type FeatureLayer,
+  type PrintabilityCheck,
+  type PrintabilityFix,
+  type PrintabilityReport,
+} from "./printability";
 
 /** Lazy-load CaptureRender — keeps Three.js out of the main bundle until needed. */
 const LazyCaptureRender = lazy(() =>
@@ -45,14 +54,115 @@ const RENDER_JOBS = [
   ...ANGLES.map((a) => ({ label: a.label, position: a.position, target: a.target })),
 ];
 
+/** Plate grids on offer for splitting a large print to fit smaller printer beds */
+const PLATE_GRIDS: PlateGrid[] = [
+  { cols: 1, rows: 1 },
+  { cols: 2, rows: 1 },
+  { cols: 1, rows: 2 },
+  { cols: 2, rows: 2 },
+  { cols: 3, rows: 2 },
+  { cols: 2, rows: 3 },
+  { cols: 3, rows: 3 },
+  { cols: 4, rows: 4 },
+];
+
+/** What each printability check found, in a sentence fragment after the count */
+const CHECK_LABELS: Record<PrintabilityCheck, string> = {
+  "edge-sliver": "slivers left where features are cut off at the edge",
+  "tiny-footprint": "buildings too small to print",
+  thin: `features thinner than a ${NOZZLE_WIDTH_MM}mm nozzle`,
+  "self-intersection": "outlines that cross themselves",
+  overhang: "raised building parts hanging over nothing",
+};
+
+const FIX_LABELS: Record<PrintabilityFix, string> = {
+  drop: "dropped",
+  thicken: "thickened",
+  repair: "repaired",
+  ground: "filled in to the ground",
+};
+
+const FEATURE_NAMES: Record<FeatureLayer, string> = {
+  buildings: "Building",
+  roads: "Road",
+  water: "Water",
+  greenery: "Green space",
+};
+
+/** Pull the camera back for prints larger than the default, so the whole model stays in shot */
+function framedPosition(
+  [x, y, z]: [number, number, number],
+  { modelWidthMm, modelDepthMm }: SceneData
+): [number, number, number] {
+  const k = Math.max(1, Math.max(modelWidthMm, modelDepthMm) / MODEL_SIZE_MM);
+  return [x * k, y * k, z * k];
+}
+
 interface Props {
   sceneData: SceneData;
   locationName: string;
   areaDescription?: string;
-  bounds: Bounds | null;
+  selection: Selection | null;
+  /** Whether roads and water are engraved into the base plate */
+  relief: boolean;
+  onReliefChange: (relief: boolean) => void;
+  /** Whether bridge decks stand on piers */
+  bridgePiers: boolean;
+  onBridgePiersChange: (bridgePiers: boolean) => void;
+  /** Vertical exaggeration of the terrain, when the scene has any */
+  terrainExaggeration: number;
+  onTerrainExaggerationChange: (exaggeration: number) => void;
+  /** How building heights are exaggerated and fitted into the printable height */
+  heightMapping: HeightMapping;
+  onHeightMappingChange: (mapping: HeightMapping) => void;
+  /** Grid of plates the print is split into */
+  plates: PlateGrid;
+  onPlatesChange: (plates: PlateGrid) => void;
+  /** Printability problems found in the model, before any fixes */
+  printReport: PrintabilityReport | null;
+  /** Whether the problems are fixed in the preview and downloads */
+  autoFix: boolean;
+  onAutoFixChange: (autoFix: boolean) => void;
+  /** When the map data was fetched from Overpass; null for generated preview data */
+  dataFetchedAt: number | null;
+  /** Name of the local file the map data came from, when it was imported rather than fetched */
+  dataFile: string | null;
+  /** Forget every saved Overpass response */
+  onClearCache: () => Promise<void>;
   onOpenViewer: () => void;
 }
 
+/** Trigger a browser download of an in-memory file. */
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/** Turn a location name into a safe, lowercase file name stem. */
+function fileStem(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return slug || "city-model";
+}
+
+/** How long ago a timestamp was, e.g. "3 hours ago". */
+function timeAgo(time: number): string {
+  const minutes = Math.round((Date.now() - time) / 60_000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? "" : "s"} ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `${hours} hour${hours === 1 ? "" : "s"} ago`;
+  const days = Math.round(hours / 24);
+  return `${days} day${days === 1 ? "" : "s"} ago`;
+}
+
 /** Truncate text to a maximum number of sentences for a concise blurb. */
 function truncateToSentences(text: string, max = 3): string {
   const sentences = text.match(/[^.!?]+[.!?]+/g);
@@ -60,7 +170,29 @@ function truncateToSentences(text: string, max = 3): string {
   return sentences.slice(0, max).join(" ").trim();
 }
 
-export default function ProductPage({ sceneData, locationName, areaDescription, bounds, onOpenViewer }: Props) {
+export default function ProductPage({
+  sceneData,
+  locationName,
+  areaDescription,
+  selection,
+  relief,
+  onReliefChange,
+  bridgePiers,
+  onBridgePiersChange,
+  terrainExaggeration,
+  onTerrainExaggerationChange,
+  heightMapping,
+  onHeightMappingChange,
+  plates,
+  onPlatesChange,
+  printReport,
+  autoFix,
+  onAutoFixChange,
+  dataFetchedAt,
+  dataFile,
+  onClearCache,
+  onOpenViewer,
+}: Props) {
   const displayName = locationName || "Your Selected Area";
 
   // Sequential render-to-image state
@@ -78,6 +210,86 @@ export default function ProductPage({ sceneData, locationName, areaDescription,
     }
   }, [sceneData]);
 
+  // Which fetch the saved map data was cleared after, so a new fetch offers it again
+  const [clearedAfter, setClearedAfter] = useState<number | null>(null);
+  const handleClearCache = useCallback(async () => {
+    try {
+      await onClearCache();
+      setClearedAfter(dataFetchedAt);
+    } catch (err) {
+      console.warn("Could not clear saved map data:", err);
+    }
+  }, [onClearCache, dataFetchedAt]);
+
+  // Exporters pull in three.js and WASM, so they're loaded on demand like the renders
+  const [exporting, setExporting] = useState<"stl" | "3mf" | null>(null);
+  const [splitRoadKinds, setSplitRoadKinds] = useState(true);
+  const [exportIssues, setExportIssues] = useState<string[]>([]);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const handleDownload = useCallback(async (format: "stl" | "3mf") => {
+    setExporting(format);
+    setExportIssues([]);
+    setExportError(null);
+    try {
+      const { buildKeyMesh, buildPrintMesh } = await import("./printMesh");
+      const toBlob =
+        format === "stl"
+          ? (await import("./stlExport")).printMeshToStl
+          : (await import("./threeMfExport")).printMeshTo3mf;
+      const encode = (printMesh: PrintMesh) => {
+        const blob = toBlob(printMesh);
+        printMesh.solid.dispose();
+        for (const layer of printMesh.layers) layer.geometry.dispose();
+        return blob;
+      };
+      const stem = fileStem(displayName);
+
+      if (!sceneData.plates) {
+        const printMesh = await buildPrintMesh(sceneData, { splitRoadKinds });
+        downloadBlob(encode(printMesh), `${stem}.${format}`);
+        setExportIssues(
+          printMesh.issues.map((i) => `${i.layer} #${i.index + 1}: ${i.reason}`)
+        );
+        return;
+      }
+
+      // A tiled print comes as one zip: a file per plate, plus the alignment keys
+      const { alignmentKeyCount, modelPlates } = await import("./modelGeometry");
+      const files: Record<string, Uint8Array> = {};
+      const issues: string[] = [];
+      for (const plate of modelPlates(sceneData)) {
+        const printMesh = await buildPrintMesh(sceneData, { splitRoadKinds, plate });
+        files[`${stem}-${plate.label}.${format}`] = new Uint8Array(await encode(printMesh).arrayBuffer());
+        issues.push(
+          ...printMesh.issues.map((i) => `Plate ${plate.label}, ${i.layer} #${i.index + 1}: ${i.reason}`)
+        );
+      }
+      const keyCount = alignmentKeyCount(sceneData);
+      if (keyCount > 0) {
+        const keys = encode(await buildKeyMesh(keyCount));
+        files[`${stem}-keys.${format}`] = new Uint8Array(await keys.arrayBuffer());
+      }
+      const { zipSync } = await import("fflate");
+      downloadBlob(new Blob([zipSync(files)], { type: "application/zip" }), `${stem}-plates.zip`);
+      setExportIssues(issues);
+    } catch (err) {
+      console.error(`${format.toUpperCase()} export failed:`, err);
+      setExportError(
+        `${format.toUpperCase()} export failed: ${err instanceof Error ? err.message : String(err)}`
+      );
+    } finally {
+      setExporting(null);
+    }
+  }, [sceneData, displayName, splitRoadKinds]);
+
+  // Issue counts per check, split by fix: one check can need several
+  const issuesByCheck = new Map<PrintabilityCheck, Map<PrintabilityFix, number>>();
+  for (const issue of printReport?.issues ?? []) {
+    const byFix = issuesByCheck.get(issue.check) ?? new Map<PrintabilityFix, number>();
+    byFix.set(issue.fix, (byFix.get(issue.fix) ?? 0) + 1);
+    issuesByCheck.set(issue.check, byFix);
+  }
+
   const heroImage = images[0] || null;
   const galleryImages = images.slice(1);
 
@@ -103,7 +315,7 @@ export default function ProductPage({ sceneData, locationName, areaDescription,
           <div className="fixed left-0 top-0 w-[1200px] h-[900px] opacity-[0.001] pointer-events-none -z-10">
             <LazyCaptureRender
               sceneData={sceneData}
-              cameraPosition={currentJob.position}
+              cameraPosition={framedPosition(currentJob.position, sceneData)}
               cameraTarget={currentJob.target}
               onCapture={handleCapture}
             />
@@ -309,7 +521,10 @@ export default function ProductPage({ sceneData, locationName, areaDescription,
         </p>
         <div className="flex justify-center gap-[clamp(24px,6vw,64px)] flex-wrap">
           {[
-            { value: sceneData.buildings.length, label: "Buildings" },
+            {
+              value: buildingCount(sceneData.buildings),
+              label: "Buildings",
+            },
             {
               value: `${Math.round(sceneData.modelWidthMm)}x${Math.round(sceneData.modelDepthMm)}`,
               label: "Print size (mm)",
@@ -325,6 +540,23 @@ export default function ProductPage({ sceneData, locationName, areaDescription,
             </div>
           ))}
         </div>
+        {dataFetchedAt !== null && (
+          <p className="mt-8 text-xs text-white/40">
+            Map data from OpenStreetMap, fetched {timeAgo(dataFetchedAt)}
+            {" · "}
+            {clearedAfter === dataFetchedAt ? (
+              "saved map data cleared"
+            ) : (
+              <button
+                onClick={handleClearCache}
+                className="bg-transparent border-none p-0 text-white/60 underline cursor-pointer hover:text-white"
+              >
+                Clear saved map data
+              </button>
+            )}
+          </p>
+        )}
+        {dataFile && <p className="mt-8 text-xs text-white/40">Map data from {dataFile}</p>}
       </div>
 
       {/* ── Description copy ── */}
@@ -337,14 +569,19 @@ export default function ProductPage({ sceneData, locationName, areaDescription,
             This isn't a generic souvenir. It's <em>your</em> selection — the
             exact neighbourhood, the precise streets, the buildings you chose.
             We pull the geometry straight from OpenStreetMap, scale it down to
-            a 200mm base plate, and print it layer by layer in premium PLA
-            filament.
+            a {Math.round(Math.max(sceneData.modelWidthMm, sceneData.modelDepthMm))}mm
+            base plate, and print it layer by layer in premium PLA filament.
           </p>
           <p className="mb-4">
-            The raised buildings cast real shadows. The roads sit recessed into
-            the base. Water features are subtly inset. The whole model sits in
-            a clean dark frame, ready to display. No painting required, no
-            assembly — just unbox and place.
+            The raised buildings cast real shadows.{" "}
+            {sceneData.relief
+              ? "The roads sit recessed into the base."
+              : "The roads run as a fine raised layer over the base."}{" "}
+            Water features are subtly inset. The whole model sits in a clean
+            dark frame, ready to display. No painting required
+            {sceneData.plates
+              ? " — the plates press together on hidden keys underneath."
+              : ", no assembly — just unbox and place."}
           </p>
           <p>
             Whether it's the neighbourhood you grew up in, the city where you
@@ -354,18 +591,215 @@ export default function ProductPage({ sceneData, locationName, areaDescription,
         </div>
       </div>
 
-      {/* ── 3D Viewer CTA ── */}
-      <div className="text-center px-6 pb-12">
+      {/* ── 3D Viewer CTA + file downloads ── */}
+      <div className="text-center px-6 pb-12 flex flex-wrap justify-center gap-3">
         <button
           onClick={onOpenViewer}
           className="px-10 py-4 bg-blue-500 text-white border-none rounded-[10px] cursor-pointer text-base font-semibold tracking-wide hover:bg-blue-600 transition-colors"
         >
           View your model in 3D
         </button>
+        {(["stl", "3mf"] as const).map((format) => (
+          <button
+            key={format}
+            onClick={() => handleDownload(format)}
+            disabled={exporting !== null}
+            className="px-8 py-4 bg-white text-[#1a1a2e] border border-[#e8e5e0] rounded-[10px] cursor-pointer text-base font-semibold tracking-wide hover:bg-[#f5f3f0] transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+          >
+            {exporting === format
+              ? `Preparing ${format.toUpperCase()}\u2026`
+              : `Download ${format.toUpperCase()}`}
+          </button>
+        ))}
+        {sceneData.terrain ? (
+          // Engraving needs a flat base, so terrain replaces the relief option
+          <label className="basis-full flex items-center justify-center gap-2 text-[13px] text-gray-500">
+            Terrain height
+            <input
+              type="range"
+              min={1}
+              max={5}
+              step={0.5}
+              value={terrainExaggeration}
+              onChange={(e) => onTerrainExaggerationChange(Number(e.target.value))}
+              className="accent-blue-500"
+            />
+            <span className="w-8 text-left tabular-nums">{terrainExaggeration}×</span>
+          </label>
+        ) : (
+          <label className="basis-full flex items-center justify-center gap-2 text-[13px] text-gray-500 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={relief}
+              onChange={(e) => onReliefChange(e.target.checked)}
+              className="accent-blue-500"
+            />
+            Engrave roads and water into the base
+          </label>
+        )}
+        <label className="basis-full flex items-center justify-center gap-2 text-[13px] text-gray-500">
+          Building height
+          <input
+            type="range"
+            min={0.5}
+            max={MAX_HEIGHT_EXAGGERATION}
+            step={0.25}
+            value={heightMapping.exaggeration}
+            onChange={(e) => onHeightMappingChange({ ...heightMapping, exaggeration: Number(e.target.value) })}
+            className="accent-blue-500"
+          />
+          <span className="w-10 text-left tabular-nums">{heightMapping.exaggeration}×</span>
+        </label>
+        <label className="basis-full flex items-center justify-center gap-2 text-[13px] text-gray-500">
+          Minimum height
+          <input
+            type="range"
+            min={0}
+            max={4}
+            step={0.5}
+            value={heightMapping.minHeightMm}
+            onChange={(e) => onHeightMappingChange({ ...heightMapping, minHeightMm: Number(e.target.value) })}
+            className="accent-blue-500"
+          />
+          <span className="w-10 text-left tabular-nums">
+            {heightMapping.minHeightMm > 0 ? `${heightMapping.minHeightMm}mm` : "off"}
+          </span>
+        </label>
+        <label className="basis-full flex items-center justify-center gap-2 text-[13px] text-gray-500">
+          Tall buildings
+          <select
+            value={heightMapping.curve}
+            onChange={(e) =>
+              onHeightMappingChange({ ...heightMapping, curve: e.target.value as HeightMapping["curve"] })
+            }
+            className="px-2 py-1 border border-[#e8e5e0] rounded-md bg-white text-[13px] text-gray-600"
+          >
+            <option value="linear">Cut off at the height limit</option>
+            <option value="sqrt">Compress gently (square root)</option>
+            <option value="log">Compress strongly (log)</option>
+          </select>
+        </label>
+        <label className="basis-full flex items-center justify-center gap-2 text-[13px] text-gray-500">
+          Print as
+          <select
+            value={PLATE_GRIDS.findIndex((g) => g.cols === plates.cols && g.rows === plates.rows)}
+            onChange={(e) => onPlatesChange(PLATE_GRIDS[Number(e.target.value)])}
+            className="px-2 py-1 border border-[#e8e5e0] rounded-md bg-white text-[13px] text-gray-600"
+          >
+            {PLATE_GRIDS.map((g, i) => (
+              <option key={i} value={i}>
+                {g.cols * g.rows === 1 ? "One plate" : `${g.cols} \u00d7 ${g.rows} plates`}
+              </option>
+            ))}
+          </select>
+          {plates.cols * plates.rows > 1 && (
+            <span className="tabular-nums">
+              each {Math.round(sceneData.modelWidthMm / plates.cols)}x
+              {Math.round(sceneData.modelDepthMm / plates.rows)}mm
+            </span>
+          )}
+        </label>
+        {sceneData.roads.some((r) => r.bridge) && (
+          <label className="basis-full flex items-center justify-center gap-2 text-[13px] text-gray-500 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={bridgePiers}
+              onChange={(e) => onBridgePiersChange(e.target.checked)}
+              className="accent-blue-500"
+            />
+            Support bridges on piers
+          </label>
+        )}
+        <label className="basis-full flex items-center justify-center gap-2 text-[13px] text-gray-500 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={splitRoadKinds}
+            onChange={(e) => setSplitRoadKinds(e.target.checked)}
+            className="accent-blue-500"
+          />
+          Separate road types in 3MF (one filament per road kind)
+        </label>
+        {exportError && (
+          <div className="basis-full max-w-[480px] text-left bg-red-50 border border-red-200 rounded-lg px-4 py-3 text-xs text-red-700">
+            {exportError}
+          </div>
+        )}
+        {exportIssues.length > 0 && (
+          <div className="basis-full max-w-[480px] text-left bg-amber-50 border border-amber-200 rounded-lg px-4 py-3 text-xs text-amber-800">
+            <p className="font-semibold mb-1">
+              {exportIssues.length} feature{exportIssues.length === 1 ? "" : "s"} could not be repaired and {exportIssues.length === 1 ? "was" : "were"} left out:
+            </p>
+            <ul className="m-0 pl-4 max-h-[120px] overflow-y-auto">
+              {exportIssues.map((issue, i) => (
+                <li key={i}>{issue}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+        {printReport && (
+          <div
+            className={`basis-full max-w-[480px] text-left rounded-lg px-4 py-3 text-xs border ${
+              printReport.issues.length > 0
+                ? "bg-amber-50 border-amber-200 text-amber-800"
+                : "bg-green-50 border-green-200 text-green-800"
+            }`}
+          >
+            <p className="font-semibold mb-1">Print check</p>
+            {printReport.issues.length === 0 ? (
+              <p className="m-0">No problems found — every feature is big enough to print.</p>
+            ) : (
+              <>
+                <ul className="m-0 pl-4">
+                  {[...issuesByCheck].map(([check, byFix]) => (
+                    <li key={check}>
+                      {[...byFix.values()].reduce((sum, n) => sum + n, 0)} {CHECK_LABELS[check]} —{" "}
+                      {[...byFix]
+                        .map(([fix, n]) => `${byFix.size > 1 ? `${n} ` : ""}${autoFix ? "" : "can be "}${FIX_LABELS[fix]}`)
+                        .join(", ")}
+                    </li>
+                  ))}
+                </ul>
+                <details className="mt-1">
+                  <summary className="cursor-pointer">Show each feature</summary>
+                  <ul className="m-0 pl-4 max-h-[120px] overflow-y-auto">
+                    {printReport.issues.map((issue, i) => (
+                      <li key={i}>
+                        {FEATURE_NAMES[issue.layer]} #{issue.index + 1}: {issue.detail}
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+                <label className="flex items-center gap-2 mt-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={autoFix}
+                    onChange={(e) => onAutoFixChange(e.target.checked)}
+                    className="accent-blue-500"
+                  />
+                  Fix automatically
+                </label>
+              </>
+            )}
+          </div>
+        )}
       </div>
 
       {/* ── Checkout ── */}
-      <CheckoutSection heroImage={heroImage} locationName={displayName} bounds={bounds} />
+      <CheckoutSection
+        heroImage={heroImage}
+        locationName={displayName}
+        selection={selection}
+        options={{
+          heightMapping,
+          relief: !!sceneData.relief,
+          bridgePiers,
+          terrainExaggeration: sceneData.terrain ? terrainExaggeration : null,
+          plates,
+          autoFix,
+          dataFile,
+          dataFetchedAt,
+        }}
+      />
 
       {/* ── Footer: Drakey 3D Prints ── */}
       <footer className="bg-[#0f1729] px-6 py-10 text-center">
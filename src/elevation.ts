@@ -0,0 +1,205 @@
+import type { SceneData, Selection, TerrainData } from "./types";
+import { computeScale, modelToLatLon, selectionBounds } from "./geometryUtils";
+
+/**
+ * Where DEM tiles live. `{tile}` is replaced by the SRTM tile name for
+ * each 1° cell, e.g. "N55W004". Either a path served alongside the app
+ * ("/dem/{tile}.hgt") or a full URL. Tiles ending in .tif/.tiff are read
+ * as GeoTIFF, anything else as raw SRTM .hgt. Unset = flat models.
+ */
+const DEM_TILE_URL = import.meta.env.VITE_DEM_TILE_URL || "";
+
+/** Default vertical exaggeration for terrain (relief is subtle at city scale) */
+export const DEFAULT_TERRAIN_EXAGGERATION =
+  Number(import.meta.env.VITE_DEM_EXAGGERATION) || 1.5;
+
+/** Approximate spacing of heightfield samples across the model, in mm */
+export const TERRAIN_GRID_MM = 2;
+
+/** SRTM marks voids (no radar return) with this value */
+const SRTM_VOID = -32768;
+
+/** A north-up elevation raster covering a lat/lon rectangle */
+interface DemTile {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+  width: number;
+  height: number;
+  /** Row-major, starting at the north-west corner */
+  data: ArrayLike<number>;
+  noData: number | null;
+}
+
+/** Terrain height in model mm at a model-space position */
+export type GroundSampler = (xMm: number, yMm: number) => number;
+
+export function isTerrainEnabled(): boolean {
+  return DEM_TILE_URL !== "";
+}
+
+/** SRTM naming: the tile is named after its south-west corner. */
+function tileName(lat: number, lon: number): string {
+  const ns = lat >= 0 ? "N" : "S";
+  const ew = lon >= 0 ? "E" : "W";
+  const absLat = String(Math.abs(lat)).padStart(2, "0");
+  const absLon = String(Math.abs(lon)).padStart(3, "0");
+  return `${ns}${absLat}${ew}${absLon}`;
+}
+
+/**
+ * Parse a raw SRTM .hgt tile: a square grid of big-endian int16 metres,
+ * 1201² (3 arc-second) or 3601² (1 arc-second), covering 1°.
+ */
+function parseHgt(buffer: ArrayBuffer, lat: number, lon: number): DemTile {
+  const size = Math.round(Math.sqrt(buffer.byteLength / 2));
+  if (size * size * 2 !== buffer.byteLength) {
+    throw new Error(`Not an SRTM tile (${buffer.byteLength} bytes)`);
+  }
+  const view = new DataView(buffer);
+  const data = new Int16Array(size * size);
+  for (let i = 0; i < data.length; i++) data[i] = view.getInt16(i * 2, false);
+  return { south: lat, west: lon, north: lat + 1, east: lon + 1, width: size, height: size, data, noData: SRTM_VOID };
+}
+
+/** Parse a single-band, EPSG:4326 GeoTIFF (e.g. SRTM or Copernicus DEM exports). */
+async function parseGeoTiff(buffer: ArrayBuffer): Promise<DemTile> {
+  // Only needed when GeoTIFF tiles are configured — keep it out of the main bundle
+  const { fromArrayBuffer } = await import("geotiff");
+  const tiff = await fromArrayBuffer(buffer);
+  const image = await tiff.getImage();
+  const [west, south, east, north] = image.getBoundingBox();
+  const [band] = (await image.readRasters({ samples: [0] })) as unknown as ArrayLike<number>[];
+  return {
+    south,
+    west,
+    north,
+    east,
+    width: image.getWidth(),
+    height: image.getHeight(),
+    data: band,
+    noData: image.getGDALNoData(),
+  };
+}
+
+/**
+ * Fetch the tile for one 1° cell. Returns null when the server has no
+ * tile — SRTM has none over open sea, so that simply means height 0.
+ */
+async function fetchTile(lat: number, lon: number, signal?: AbortSignal): Promise<DemTile | null> {
+  const url = DEM_TILE_URL.replace("{tile}", tileName(lat, lon));
+  const res = await fetch(url, { signal });
+  if (res.status === 404) return null;
+  if (!res.ok) throw new Error(`DEM tile HTTP ${res.status}`);
+  const buffer = await res.arrayBuffer();
+  return /\.tiff?$/i.test(url) ? parseGeoTiff(buffer) : parseHgt(buffer, lat, lon);
+}
+
+/** Bilinear elevation lookup in metres, or null if outside the tile / void. */
+function sampleTile(tile: DemTile, lat: number, lon: number): number | null {
+  if (lat < tile.south || lat > tile.north || lon < tile.west || lon > tile.east) return null;
+
+  // Pixel-is-point grids: the first and last samples sit on the tile edges
+  const fx = ((lon - tile.west) / (tile.east - tile.west)) * (tile.width - 1);
+  const fy = ((tile.north - lat) / (tile.north - tile.south)) * (tile.height - 1);
+  const x0 = Math.floor(fx);
+  const y0 = Math.floor(fy);
+  const x1 = Math.min(x0 + 1, tile.width - 1);
+  const y1 = Math.min(y0 + 1, tile.height - 1);
+  const tx = fx - x0;
+  const ty = fy - y0;
+
+  const at = (x: number, y: number) => {
+    const v = tile.data[y * tile.width + x];
+    return v === tile.noData || !isFinite(v) ? null : v;
+  };
+  const corners = [at(x0, y0), at(x1, y0), at(x0, y1), at(x1, y1)];
+  if (corners.some((c) => c === null)) {
+    // Near a void — fall back to whichever neighbours are valid
+    const valid = corners.filter((c): c is number => c !== null);
+    return valid.length > 0 ? valid.reduce((a, b) => a + b, 0) / valid.length : null;
+  }
+  const [a, b, c, d] = corners as number[];
+  return (a * (1 - tx) + b * tx) * (1 - ty) + (c * (1 - tx) + d * tx) * ty;
+}
+
+/**
+ * Build the terrain heightfield for a selection from local DEM tiles.
+ *
+ * Grid points are laid out in model space and mapped back to lat/lon
+ * through the inverse of the same projection used for every feature,
+ * so hills line up with the buildings and roads sitting on them.
+ * Returns null when no DEM source is configured.
+ */
+export async function loadTerrain(
+  selection: Selection,
+  signal?: AbortSignal
+): Promise<TerrainData | null> {
+  if (!isTerrainEnabled()) return null;
+
+  const { scaleMMperM, modelWidthMm, modelDepthMm } = computeScale(selection);
+  const [south, west, north, east] = selectionBounds(selection);
+
+  const tiles: DemTile[] = [];
+  for (let lat = Math.floor(south); lat <= Math.floor(north); lat++) {
+    for (let lon = Math.floor(west); lon <= Math.floor(east); lon++) {
+      const tile = await fetchTile(lat, lon, signal);
+      if (tile) tiles.push(tile);
+    }
+  }
+  if (tiles.length === 0) return null;
+
+  const cols = Math.max(2, Math.ceil(modelWidthMm / TERRAIN_GRID_MM) + 1);
+  const rows = Math.max(2, Math.ceil(modelDepthMm / TERRAIN_GRID_MM) + 1);
+  const elevations: number[] = new Array(rows * cols);
+  let minElev = Infinity;
+
+  for (let r = 0; r < rows; r++) {
+    const y = -modelDepthMm / 2 + (r / (rows - 1)) * modelDepthMm;
+    for (let c = 0; c < cols; c++) {
+      const x = -modelWidthMm / 2 + (c / (cols - 1)) * modelWidthMm;
+      const [lat, lon] = modelToLatLon(x, y, selection, scaleMMperM);
+      let elev = 0;
+      for (const tile of tiles) {
+        const v = sampleTile(tile, lat, lon);
+        if (v !== null) {
+          elev = v;
+          break;
+        }
+      }
+      elevations[r * cols + c] = elev;
+      minElev = Math.min(minElev, elev);
+    }
+  }
+
+  return {
+    cols,
+    rows,
+    heightsMm: elevations.map((e) => (e - minElev) * scaleMMperM),
+    exaggeration: DEFAULT_TERRAIN_EXAGGERATION,
+  };
+}
+
+/**
+ * Bilinear height lookup (model mm, exaggeration applied) anywhere on
+ * the model. Returns undefined for flat scenes.
+ */
+export function groundSampler(sceneData: SceneData): GroundSampler | undefined {
+  const { terrain, modelWidthMm, modelDepthMm } = sceneData;
+  if (!terrain) return undefined;
+  const { cols, rows, heightsMm, exaggeration } = terrain;
+
+  return (xMm, yMm) => {
+    const fx = Math.min(Math.max((xMm / modelWidthMm + 0.5) * (cols - 1), 0), cols - 1);
+    const fy = Math.min(Math.max((yMm / modelDepthMm + 0.5) * (rows - 1), 0), rows - 1);
+    const c0 = Math.min(Math.floor(fx), cols - 2);
+    const r0 = Math.min(Math.floor(fy), rows - 2);
+    const tx = fx - c0;
+    const ty = fy - r0;
+    const h = (r: number, c: number) => heightsMm[r * cols + c];
+    const bottom = h(r0, c0) * (1 - tx) + h(r0, c0 + 1) * tx;
+    const top = h(r0 + 1, c0) * (1 - tx) + h(r0 + 1, c0 + 1) * tx;
+    return (bottom * (1 - ty) + top * ty) * exaggeration;
+  };
+}
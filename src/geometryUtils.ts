@@ -1,49 +1,147 @@
-import type { Bounds, Point2D, Polygon, RoadData } from "./types";
+import polygonClipping, { type MultiPolygon } from "polygon-clipping";
+import type {
+  BuildingData,
+  Bounds,
+  HeightMapping,
+  ModelAspect,
+  Point2D,
+  Polygon,
+  PolygonWithHoles,
+  ReliefSettings,
+  RoadData,
+  RoofData,
+  RoofShape,
+  Selection,
+  SelectionShape,
+  TreeData,
+} from "./types";
+import { projectionFor } from "./projection";
 
 /**
- * Fixed physical footprint of the model in millimetres.
- * The longest axis of the selected area will be scaled to this size,
- * with the other axis scaled proportionally (letterboxed).
+ * Default physical footprint of the model in millimetres.
+ * The longest axis of the selected area will be scaled to the chosen
+ * print size, with the other axis scaled proportionally (letterboxed).
  */
 export const MODEL_SIZE_MM = 200;
 
+/** Print sizes on offer: the length of the model's longest side, in mm */
+export const MODEL_SIZES_MM = [100, 150, 200, 300];
+
+/** Width over height of the selection frame for each format */
+export const MODEL_ASPECTS: Record<ModelAspect, number> = {
+  square: 1,
+  "4:3": 4 / 3,
+  "2:1": 2,
+};
+
 /** Base plate thickness in mm */
 export const BASE_THICKNESS_MM = 4;
 
+/** Default channel depths (mm) when roads and water are engraved */
+export const DEFAULT_RELIEF: ReliefSettings = {
+  roads: { major: 0.8, minor: 0.6, railway: 0.6, path: 0.4 },
+  water: 1.0,
+};
+
 /** Maximum building height in mm (to keep the model printable) */
 const MAX_BUILDING_HEIGHT_MM = 40;
 
+/** Printed heights up to this are never squeezed by the sqrt and log curves, only exaggerated (mm) */
+export const HEIGHT_CURVE_KNEE_MM = MAX_BUILDING_HEIGHT_MM / 2;
+
+/** Most building heights can be exaggerated on the product page */
+export const MAX_HEIGHT_EXAGGERATION = 4;
+
+/** Features with a smaller footprint print as a blob, if at all (mm²) */
+export const MIN_FOOTPRINT_MM2 = 1;
+
+/** Printed building heights as the model has always come out: true to scale, cut off at the limit */
+export const DEFAULT_HEIGHT_MAPPING: HeightMapping = {
+  exaggeration: 1,
+  minHeightMm: 0,
+  curve: "linear",
+};
+
+/** How hard the log curve squeezes the tallest buildings together */
+const LOG_CURVE_STRENGTH = 99;
+
+/**
+ * Seed for the fallback heights of untagged buildings. Changing it gives
+ * a different (but still reproducible) skyline for the same area.
+ */
+export const HEIGHT_SEED = 1;
+
+/** Typical height range in metres for untagged buildings of each building=* type */
+const BUILDING_HEIGHT_RANGES: Record<string, [number, number]> = {
+  house: [6, 9],
+  detached: [6, 9],
+  semidetached_house: [6, 9],
+  terrace: [7, 11],
+  bungalow: [3.5, 5],
+  residential: [8, 14],
+  apartments: [12, 24],
+  dormitory: [10, 18],
+  garage: [2.5, 3],
+  garages: [2.5, 3],
+  carport: [2.5, 3],
+  shed: [2.5, 3.5],
+  hut: [2.5, 3.5],
+  cabin: [3, 4.5],
+  kiosk: [2.5, 3.5],
+  roof: [3, 5],
+  greenhouse: [3, 4],
+  service: [3, 4],
+  barn: [6, 9],
+  farm_auxiliary: [4, 7],
+  stable: [4, 6],
+  commercial: [10, 20],
+  retail: [5, 10],
+  supermarket: [6, 9],
+  office: [12, 30],
+  hotel: [15, 30],
+  industrial: [8, 12],
+  warehouse: [8, 12],
+  parking: [10, 15],
+  church: [12, 20],
+  chapel: [6, 9],
+  cathedral: [25, 40],
+  mosque: [12, 20],
+  synagogue: [10, 16],
+  temple: [8, 14],
+  school: [8, 12],
+  university: [12, 20],
+  college: [10, 16],
+  hospital: [15, 30],
+  civic: [10, 16],
+  public: [10, 16],
+  government: [12, 20],
+  train_station: [10, 16],
+  stadium: [15, 30],
+};
+
+/** Fallback for building=yes and types not listed above */
+const DEFAULT_HEIGHT_RANGE: [number, number] = [6, 15];
+
 /**
  * Convert a single lat/lon to local metres relative to the centre of
- * the given bounds, using a simple Web Mercator-style approximation.
- *
- * This is accurate enough for city-scale areas (a few km).
+ * the selection, through the selection's projection.
  * X = east, Y = north (right-hand screen coords).
  */
-export function latLonToLocalMetres(
-  lat: number,
-  lon: number,
-  bounds: Bounds
-): [number, number] {
-  const [south, west, north, east] = bounds;
-  const centLat = (south + north) / 2;
-  const centLon = (west + east) / 2;
-
-  // Metres per degree at centre latitude
-  const mPerDegLat = 111_320;
-  const mPerDegLon = 111_320 * Math.cos((centLat * Math.PI) / 180);
+export function latLonToLocalMetres(lat: number, lon: number, selection: Selection): [number, number] {
+  return projectionFor(selection).forward(lat, lon);
+}
 
-  const x = (lon - centLon) * mPerDegLon;
-  const y = (lat - centLat) * mPerDegLat;
-  return [x, y];
+/**
+ * Inverse of latLonToLocalMetres: local metres (relative to the centre
+ * of the selection) back to [lat, lon].
+ */
+export function localMetresToLatLon(x: number, y: number, selection: Selection): [number, number] {
+  return projectionFor(selection).inverse(x, y);
 }
 
 /**
  * Rotate a 2D point counter-clockwise by the given angle (degrees).
- *
- * When applied with the map's bearing this aligns the model so that
- * "up in the model" matches "up on the user's screen" rather than
- * geographic north.
+ * Used to align model coordinates with the map bearing.
  */
 function rotatePoint(x: number, y: number, angleDeg: number): Point2D {
   const rad = (angleDeg * Math.PI) / 180;
@@ -53,81 +151,177 @@ function rotatePoint(x: number, y: number, angleDeg: number): Point2D {
 }
 
 /**
- * Compute the real-world width and height (metres) of the selection,
- * and return the scale factor (mm per metre) that fits the longest
- * axis into MODEL_SIZE_MM.
- *
- * When bearingDeg ≠ 0 the bounds represent the axis-aligned bounding
- * box of a rotated selection frame.  We recover the actual frame
- * dimensions so the model is scaled to the visible area, not the
- * (larger) AABB.
+ * The scale factor (mm per metre) that fits the longest side of the
+ * selection frame into the chosen print size, and the resulting model size.
+ * The frame's widthM and heightM are projected metres: MapSelector and
+ * fitSelection measure it through the selection's own projection, the
+ * same one its features go through, so the model fills the frame.
  */
-export function computeScale(bounds: Bounds, bearingDeg = 0): {
+export function computeScale({ widthM, heightM, sizeMm = MODEL_SIZE_MM }: Selection): {
   scaleMMperM: number;
   realWidthM: number;
   realHeightM: number;
   modelWidthMm: number;
   modelDepthMm: number;
 } {
-  const [south, west, north, east] = bounds;
-  const [w, _h1] = latLonToLocalMetres(south, east, bounds);
-  const [_w2, h] = latLonToLocalMetres(north, west, bounds);
+  const maxDim = Math.max(widthM, heightM);
+  const scaleMMperM = maxDim > 0 ? sizeMm / maxDim : 1;
 
-  // AABB half-dimensions in metres
-  const aabbHalfW = Math.abs(w);
-  const aabbHalfH = Math.abs(h);
+  return {
+    scaleMMperM,
+    realWidthM: widthM,
+    realHeightM: heightM,
+    modelWidthMm: widthM * scaleMMperM,
+    modelDepthMm: heightM * scaleMMperM,
+  };
+}
 
-  let realWidthM: number;
-  let realHeightM: number;
+/** The four corners of the selection frame as [lat, lon], clockwise from top-left. */
+export function selectionCorners(selection: Selection): [number, number][] {
+  const hw = selection.widthM / 2;
+  const hh = selection.heightM / 2;
+  return ([[-hw, hh], [hw, hh], [hw, -hh], [-hw, -hh]] as Point2D[]).map(([x, y]) => {
+    const [ex, ny] = rotatePoint(x, y, -selection.bearing);
+    return localMetresToLatLon(ex, ny, selection);
+  });
+}
 
-  if (Math.abs(bearingDeg % 360) < 0.1) {
-    // No rotation — AABB equals the frame
-    realWidthM = aabbHalfW * 2;
-    realHeightM = aabbHalfH * 2;
-  } else {
-    // Recover the actual (rotated) frame dimensions from the AABB.
-    // The screen frame (fw × fh) rotated by bearing B produces an AABB of:
-    //   aabbW = fw·|cos B| + fh·|sin B|
-    //   aabbH = fw·|sin B| + fh·|cos B|
-    const rad = (Math.abs(bearingDeg) * Math.PI) / 180;
-    const c = Math.abs(Math.cos(rad));
-    const s = Math.abs(Math.sin(rad));
-    const denom = c * c - s * s;
-
-    let frameHalfW: number;
-    let frameHalfH: number;
-
-    if (Math.abs(denom) > 0.01) {
-      frameHalfW = Math.abs((aabbHalfW * c - aabbHalfH * s) / denom);
-      frameHalfH = Math.abs((aabbHalfH * c - aabbHalfW * s) / denom);
-    } else {
-      // Near 45° / 135° — denominator ≈ 0; assume square frame
-      frameHalfW = aabbHalfW / (c + s);
-      frameHalfH = aabbHalfH / (c + s);
-    }
+/** Axis-aligned lat/lon box around the selection frame (for DEM tiles and order records). */
+export function selectionBounds(selection: Selection): Bounds {
+  const corners = selectionCorners(selection);
+  const lats = corners.map(([lat]) => lat);
+  const lons = corners.map(([, lon]) => lon);
+  return [Math.min(...lats), Math.min(...lons), Math.max(...lats), Math.max(...lons)];
+}
 
-    realWidthM = frameHalfW * 2;
-    realHeightM = frameHalfH * 2;
-  }
+/** Points on the edge of a circular selection */
+const CIRCLE_SEGMENTS = 64;
 
-  const maxDim = Math.max(realWidthM, realHeightM);
-  const scaleMMperM = maxDim > 0 ? MODEL_SIZE_MM / maxDim : 1;
+/** Where the query and clipping boundary runs: the outline of a shaped selection, else the frame. */
+export function selectionOutline(selection: Selection): [number, number][] {
+  return selection.outline ?? selectionCorners(selection);
+}
 
+/**
+ * Fit the selection frame around a [lat, lon] ring, keeping the frame
+ * turned to `bearing`: the smallest such rectangle containing the ring.
+ */
+export function fitSelection(
+  outline: [number, number][],
+  bearing: number,
+  shape: SelectionShape = "polygon"
+): Selection {
+  const lats = outline.map(([lat]) => lat);
+  const lons = outline.map(([, lon]) => lon);
+  const origin: Selection = {
+    center: [(Math.min(...lats) + Math.max(...lats)) / 2, (Math.min(...lons) + Math.max(...lons)) / 2],
+    widthM: 0,
+    heightM: 0,
+    bearing,
+  };
+  const turned = outline.map(([lat, lon]) => rotatePoint(...latLonToLocalMetres(lat, lon, origin), bearing));
+  const xs = turned.map(([x]) => x);
+  const ys = turned.map(([, y]) => y);
+  const [minX, maxX, minY, maxY] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+  const [ex, ny] = rotatePoint((minX + maxX) / 2, (minY + maxY) / 2, -bearing);
   return {
-    scaleMMperM,
-    realWidthM,
-    realHeightM,
-    modelWidthMm: realWidthM * scaleMMperM,
-    modelDepthMm: realHeightM * scaleMMperM,
+    center: localMetresToLatLon(ex, ny, origin),
+    widthM: maxX - minX,
+    heightM: maxY - minY,
+    bearing,
+    shape,
+    outline,
   };
 }
 
+/**
+ * Cut a circle or a (pointy-topped) hexagon out of the selection frame,
+ * as large as fits, and fit the frame back around it.
+ */
+export function shapeSelection(frame: Selection, shape: SelectionShape): Selection {
+  if (shape !== "circle" && shape !== "hexagon") return frame;
+  const radius = Math.min(frame.widthM, frame.heightM) / 2;
+  const count = shape === "circle" ? CIRCLE_SEGMENTS : 6;
+  const outline = Array.from({ length: count }, (_, i) => {
+    const a = Math.PI / 2 + (i / count) * Math.PI * 2;
+    const [ex, ny] = rotatePoint(radius * Math.cos(a), radius * Math.sin(a), -frame.bearing);
+    return localMetresToLatLon(ex, ny, frame);
+  });
+  return fitSelection(outline, frame.bearing, shape);
+}
+
+/** Signed area of a ring: positive when counter-clockwise. */
+export function ringArea(ring: Polygon): number {
+  let area = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    area += (ring[j][0] - ring[i][0]) * (ring[j][1] + ring[i][1]);
+  }
+  return area / 2;
+}
+
+/** Area of a shape with its holes taken out. */
+export function shapeArea({ polygon, holes = [] }: PolygonWithHoles): number {
+  return Math.abs(ringArea(polygon)) - holes.reduce((sum, h) => sum + Math.abs(ringArea(h)), 0);
+}
+
+/** Distance from p to the segment ab. */
+function segmentDistance([px, py]: Point2D, [ax, ay]: Point2D, [bx, by]: Point2D): number {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq > 0 ? Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lengthSq)) : 0;
+  return Math.hypot(px - ax - t * dx, py - ay - t * dy);
+}
+
+/**
+ * Douglas–Peucker simplification of a closed ring: drops every vertex
+ * that lies within `toleranceMm` of the outline left without it. The
+ * ring is split at its first vertex and the vertex farthest from it, and
+ * each half simplified as an open line. Returns the ring unchanged if
+ * fewer than three points would be left.
+ */
+export function simplifyRing(ring: Polygon, toleranceMm: number): Polygon {
+  const n = ring.length;
+  if (n <= 3) return ring;
+  const at = (i: number) => ring[i % n];
+
+  const [x0, y0] = ring[0];
+  let far = 1;
+  for (let i = 2; i < n; i++) {
+    if (Math.hypot(ring[i][0] - x0, ring[i][1] - y0) > Math.hypot(ring[far][0] - x0, ring[far][1] - y0)) far = i;
+  }
+
+  const keep = new Uint8Array(n);
+  keep[0] = keep[far] = 1;
+  // Index n stands for vertex 0 again, closing the second half
+  const spans: [number, number][] = [[0, far], [far, n]];
+  while (spans.length > 0) {
+    const [a, b] = spans.pop()!;
+    let worst = -1;
+    let worstDistance = toleranceMm;
+    for (let i = a + 1; i < b; i++) {
+      const d = segmentDistance(at(i), at(a), at(b));
+      if (d > worstDistance) {
+        worst = i;
+        worstDistance = d;
+      }
+    }
+    if (worst >= 0) {
+      keep[worst] = 1;
+      spans.push([a, worst], [worst, b]);
+    }
+  }
+
+  const simplified = ring.filter((_, i) => keep[i]);
+  return simplified.length >= 3 ? simplified : ring;
+}
+
 /**
  * Sutherland-Hodgman polygon clipping against an axis-aligned rectangle.
  * Clips the polygon to [minX, minY] – [maxX, maxY].
  * Returns the clipped polygon, or an empty array if fully outside.
  */
-function clipPolygon(
+export function clipPolygon(
   poly: Point2D[],
   minX: number,
   minY: number,
@@ -200,47 +394,151 @@ function clipPolygon(
   return output;
 }
 
+/** polygon-clipping repeats the first point at the end of every ring */
+function openRing(ring: Point2D[]): Polygon {
+  const first = ring[0];
+  const last = ring[ring.length - 1];
+  return first[0] === last[0] && first[1] === last[1] ? ring.slice(0, -1) : ring;
+}
+
+function toMultiPolygon(shapes: PolygonWithHoles[]): MultiPolygon {
+  return shapes
+    .filter((s) => s.polygon.length >= 3)
+    .map((s) => [s.polygon, ...(s.holes ?? []).filter((h) => h.length >= 3)]);
+}
+
+function fromMultiPolygon(multi: MultiPolygon): PolygonWithHoles[] {
+  return multi.map(([outer, ...holes]) => ({
+    polygon: openRing(outer),
+    holes: holes.length > 0 ? holes.map(openRing) : undefined,
+  }));
+}
+
+/**
+ * Boolean union of any number of polygons. Overlaps are merged and
+ * self-intersections resolved, leaving non-overlapping pieces.
+ */
+export function unionPolygons(shapes: PolygonWithHoles[]): PolygonWithHoles[] {
+  const multi = toMultiPolygon(shapes);
+  if (multi.length === 0) return [];
+  return fromMultiPolygon(polygonClipping.union(multi));
+}
+
+/**
+ * Union as much as polygon-clipping will manage. It can choke on awkward
+ * input, so on failure the shapes are split in two and each half merged
+ * on its own: one bad shape only leaves its neighbours unmerged, as
+ * overlapping shapes that still print fine.
+ */
+export function unionWherePossible(shapes: PolygonWithHoles[]): PolygonWithHoles[] {
+  try {
+    return unionPolygons(shapes);
+  } catch {
+    if (shapes.length <= 1) return shapes;
+    const mid = Math.floor(shapes.length / 2);
+    const halves = [
+      ...unionWherePossible(shapes.slice(0, mid)),
+      ...unionWherePossible(shapes.slice(mid)),
+    ];
+    try {
+      return unionPolygons(halves);
+    } catch {
+      return halves;
+    }
+  }
+}
+
+/** Boolean intersection: the parts of `subject` inside `clips`. */
+export function intersectPolygons(
+  subject: PolygonWithHoles[],
+  clips: PolygonWithHoles[]
+): PolygonWithHoles[] {
+  const subjectMulti = toMultiPolygon(subject);
+  const clipMulti = toMultiPolygon(clips);
+  if (subjectMulti.length === 0 || clipMulti.length === 0) return [];
+  return fromMultiPolygon(polygonClipping.intersection(subjectMulti, clipMulti));
+}
+
+/** Boolean difference: the parts of `subject` not covered by `clips`. */
+export function subtractPolygons(
+  subject: PolygonWithHoles[],
+  clips: PolygonWithHoles[]
+): PolygonWithHoles[] {
+  const subjectMulti = toMultiPolygon(subject);
+  if (subjectMulti.length === 0) return [];
+  const clipMulti = toMultiPolygon(clips);
+  if (clipMulti.length === 0) return fromMultiPolygon(subjectMulti);
+  return fromMultiPolygon(polygonClipping.difference(subjectMulti, clipMulti));
+}
+
 /**
  * Convert an array of [lat, lon] pairs (an OSM way/polygon) to
- * model-space mm coordinates centred on the selection, clipped to
- * the model boundary so nothing extends outside the base plate.
+ * model-space mm coordinates through the selection's projection
+ * (see projection.ts): centred on the selection and turned with
+ * it, so the frame's edges become the model's edges. Clipped to the
+ * base plate unless `clip` is false (for lines that are sampled or
+ * buffered before clipping).
  */
 export function projectPolygon(
   coords: [number, number][],
-  bounds: Bounds,
+  selection: Selection,
   scaleMMperM: number,
-  modelWidthMm?: number,
-  modelDepthMm?: number,
-  bearingDeg = 0
+  clip = true
 ): Polygon {
   const projected = coords.map(([lat, lon]) => {
-    const [xm, ym] = latLonToLocalMetres(lat, lon, bounds);
-    const mm: Point2D = [xm * scaleMMperM, ym * scaleMMperM];
-    return bearingDeg ? rotatePoint(mm[0], mm[1], bearingDeg) : mm;
+    const [xm, ym] = latLonToLocalMetres(lat, lon, selection);
+    return rotatePoint(xm * scaleMMperM, ym * scaleMMperM, selection.bearing);
   });
+  if (!clip) return projected;
 
-  // If model dimensions provided, clip to the base plate boundary
-  if (modelWidthMm != null && modelDepthMm != null) {
-    const halfW = modelWidthMm / 2;
-    const halfD = modelDepthMm / 2;
-    return clipPolygon(projected, -halfW, -halfD, halfW, halfD);
-  }
+  const halfW = (selection.widthM * scaleMMperM) / 2;
+  const halfD = (selection.heightM * scaleMMperM) / 2;
+  return clipPolygon(projected, -halfW, -halfD, halfW, halfD);
+}
 
-  return projected;
+/**
+ * Inverse of the projection used by projectPolygon: a point in model mm
+ * back to [lat, lon]. Used to sample real-world data (e.g. elevation)
+ * at model-space positions so it lines up with the projected features.
+ */
+export function modelToLatLon(
+  xMm: number,
+  yMm: number,
+  selection: Selection,
+  scaleMMperM: number
+): [number, number] {
+  const [x, y] = rotatePoint(xMm, yMm, -selection.bearing);
+  return localMetresToLatLon(x / scaleMMperM, y / scaleMMperM, selection);
+}
+
+/**
+ * Deterministic pseudo-random number in [0, 1) for an OSM element id,
+ * so the same area always generates the same model.
+ */
+export function seededRandom(id: number, seed = HEIGHT_SEED): number {
+  // Mix both halves of the id (OSM ids outgrow 32 bits), then avalanche
+  let h = Math.imul(id | 0, 0x9e3779b1) ^ Math.imul(Math.floor(id / 2 ** 32), 0x85ebca6b) ^ seed;
+  h = Math.imul(h ^ (h >>> 16), 0x21f0aaad);
+  h = Math.imul(h ^ (h >>> 15), 0x735a2d97);
+  h ^= h >>> 15;
+  return (h >>> 0) / 2 ** 32;
 }
 
 /**
  * Derive building height in real-world metres from OSM tags,
- * then convert to model mm.
+ * then convert to model mm, true to scale.
  *
  * Priority:
  *   1. height=* tag (already in metres)
  *   2. building:levels=* (≈3m per level)
- *   3. Random default (6-18m)
+ *   3. A typical height for the building=* type, picked reproducibly
+ *      from the OSM id and seed
  */
 export function buildingHeightMm(
   tags: Record<string, string>,
-  scaleMMperM: number
+  scaleMMperM: number,
+  osmId = 0,
+  seed = HEIGHT_SEED
 ): number {
   let metres: number;
 
@@ -251,13 +549,317 @@ export function buildingHeightMm(
     const levels = parseInt(tags["building:levels"], 10);
     metres = (isNaN(levels) ? 3 : levels) * 3;
   } else {
-    // Deterministic-ish default: 6-18m
-    metres = 6 + Math.random() * 12;
+    const [min, max] = BUILDING_HEIGHT_RANGES[tags["building"]] ?? DEFAULT_HEIGHT_RANGE;
+    metres = min + seededRandom(osmId, seed) * (max - min);
   }
 
-  const mm = metres * scaleMMperM;
-  // Clamp so buildings don't dwarf the base
-  return Math.min(mm, MAX_BUILDING_HEIGHT_MM);
+  return metres * scaleMMperM;
+}
+
+/** OSM roof:shape values mapped onto the shapes we can build */
+const ROOF_SHAPES: Record<string, RoofShape> = {
+  gabled: "gabled",
+  saltbox: "gabled",
+  gambrel: "gabled",
+  hipped: "hipped",
+  "half-hipped": "hipped",
+  side_hipped: "hipped",
+  mansard: "hipped",
+  pyramidal: "pyramidal",
+  cone: "pyramidal",
+  skillion: "skillion",
+  lean_to: "skillion",
+  dome: "dome",
+  onion: "onion",
+};
+
+/** Compass points accepted by roof:direction, in degrees clockwise from north */
+const COMPASS_DEG: Record<string, number> = {
+  N: 0, NNE: 22.5, NE: 45, ENE: 67.5, E: 90, ESE: 112.5, SE: 135, SSE: 157.5,
+  S: 180, SSW: 202.5, SW: 225, WSW: 247.5, W: 270, WNW: 292.5, NW: 315, NNW: 337.5,
+};
+
+/**
+ * The smallest rectangle enclosing a polygon, aligned with one of its
+ * edges. `axis` is a unit vector along the rectangle's long side.
+ */
+export function orientedBoundingBox(poly: Polygon): {
+  centre: Point2D;
+  axis: Point2D;
+  halfLength: number;
+  halfWidth: number;
+} {
+  let best = { area: Infinity, centre: [0, 0] as Point2D, axis: [1, 0] as Point2D, halfLength: 0, halfWidth: 0 };
+  for (let i = 0; i < poly.length; i++) {
+    const [x0, y0] = poly[i];
+    const [x1, y1] = poly[(i + 1) % poly.length];
+    const len = Math.hypot(x1 - x0, y1 - y0);
+    if (len === 0) continue;
+    const ax = (x1 - x0) / len;
+    const ay = (y1 - y0) / len;
+
+    let minU = Infinity, maxU = -Infinity, minV = Infinity, maxV = -Infinity;
+    for (const [x, y] of poly) {
+      const u = x * ax + y * ay;
+      const v = -x * ay + y * ax;
+      minU = Math.min(minU, u);
+      maxU = Math.max(maxU, u);
+      minV = Math.min(minV, v);
+      maxV = Math.max(maxV, v);
+    }
+    const area = (maxU - minU) * (maxV - minV);
+    if (area >= best.area) continue;
+
+    const cu = (minU + maxU) / 2;
+    const cv = (minV + maxV) / 2;
+    const centre: Point2D = [cu * ax - cv * ay, cu * ay + cv * ax];
+    const [hu, hv] = [(maxU - minU) / 2, (maxV - minV) / 2];
+    best = hu >= hv
+      ? { area, centre, axis: [ax, ay], halfLength: hu, halfWidth: hv }
+      : { area, centre, axis: [-ay, ax], halfLength: hv, halfWidth: hu };
+  }
+  return best;
+}
+
+/** Parse an OSM length tag ("12", "12 m", "12.5m") in metres. */
+function parseMetres(value: string | undefined): number | null {
+  if (!value) return null;
+  const metres = parseFloat(value);
+  return isNaN(metres) || metres < 0 ? null : metres;
+}
+
+/**
+ * Read an OSM roof description (roof:shape, roof:height, roof:levels,
+ * roof:direction, roof:orientation) into model space. Returns undefined
+ * for flat or unknown roofs.
+ *
+ * Without a roof:height or roof:levels tag the height is picked from the
+ * footprint: a ~30° pitch for sloped roofs, a hemisphere for domes.
+ */
+export function buildingRoof(
+  tags: Record<string, string>,
+  footprint: Polygon,
+  scaleMMperM: number,
+  bearingDeg = 0
+): RoofData | undefined {
+  const shape = ROOF_SHAPES[tags["roof:shape"] ?? ""];
+  if (!shape || footprint.length < 3) return undefined;
+
+  let heightMm: number;
+  const metres = parseMetres(tags["roof:height"]);
+  const levels = parseInt(tags["roof:levels"] ?? "", 10);
+  if (metres !== null) {
+    heightMm = metres * scaleMMperM;
+  } else if (levels > 0) {
+    heightMm = levels * 3 * scaleMMperM;
+  } else {
+    const { halfLength, halfWidth } = orientedBoundingBox(footprint);
+    if (shape === "dome") heightMm = halfWidth;
+    else if (shape === "onion") heightMm = halfWidth * 2;
+    else if (shape === "skillion") heightMm = halfWidth * 2 * 0.3;
+    else heightMm = Math.min(halfWidth, halfLength) * 0.6;
+  }
+  if (!(heightMm > 0)) return undefined;
+
+  const roof: RoofData = { shape, heightMm };
+  const direction = tags["roof:direction"]?.trim().toUpperCase();
+  if (direction) {
+    const compass = COMPASS_DEG[direction] ?? parseFloat(direction);
+    // Model space is rotated counter-clockwise by the bearing
+    if (!isNaN(compass)) roof.directionDeg = (((compass - bearingDeg) % 360) + 360) % 360;
+  }
+  if (tags["roof:orientation"] === "across") roof.across = true;
+  return roof;
+}
+
+/** Underside of a raised building part (min_height or building:min_level), in model mm. */
+function buildingMinHeightMm(tags: Record<string, string>, scaleMMperM: number): number {
+  const metres = parseMetres(tags["min_height"]);
+  if (metres !== null) return metres * scaleMMperM;
+  const levels = parseInt(tags["building:min_level"] ?? "", 10);
+  return levels > 0 ? levels * 3 * scaleMMperM : 0;
+}
+
+/**
+ * Wall heights and roof for a building, true to scale. OSM's `height`
+ * includes the roof, while `building:levels` counts only the storeys
+ * beneath it. Raised parts keep at least a sliver of wall under them.
+ */
+export function buildingShape(
+  tags: Record<string, string>,
+  footprint: Polygon,
+  scaleMMperM: number,
+  bearingDeg = 0,
+  osmId = 0
+): Pick<BuildingData, "heightMm" | "minHeightMm" | "roof"> {
+  let heightMm = buildingHeightMm(tags, scaleMMperM, osmId);
+  let minHeightMm = buildingMinHeightMm(tags, scaleMMperM);
+  const roof = buildingRoof(tags, footprint, scaleMMperM, bearingDeg);
+
+  if (roof && parseMetres(tags["height"]) !== null) {
+    // Leave at least a little wall under the roof
+    roof.heightMm = Math.min(roof.heightMm, Math.max(heightMm - minHeightMm, 0) * 0.8);
+    heightMm -= roof.heightMm;
+  }
+  minHeightMm = Math.min(minHeightMm, heightMm * 0.9);
+
+  return {
+    heightMm,
+    ...(minHeightMm > 0 && { minHeightMm }),
+    ...(roof && roof.heightMm > 0 && { roof }),
+  };
+}
+
+/**
+ * Turn true-to-scale building heights into printed ones: exaggerate,
+ * fit under the height limit along the chosen curve, then lift anything
+ * below the minimum. The compressing curves leave everything up to half
+ * the limit alone and squeeze the rest so the tallest building just
+ * reaches it. Absolute heights are mapped, so a tower's underside still
+ * meets the top of the podium it stands on.
+ */
+export function mapBuildingHeights(
+  buildings: BuildingData[],
+  { exaggeration, minHeightMm, curve }: HeightMapping
+): BuildingData[] {
+  const top = buildings.reduce((max, b) => Math.max(max, (b.heightMm + (b.roof?.heightMm ?? 0)) * exaggeration), 0);
+  const knee = HEIGHT_CURVE_KNEE_MM;
+  const compress = (t: number) =>
+    curve === "sqrt" ? Math.sqrt(t) : Math.log1p(LOG_CURVE_STRENGTH * t) / Math.log1p(LOG_CURVE_STRENGTH);
+  const map = (mm: number): number => {
+    const h = mm * exaggeration;
+    if (curve === "linear" || top <= MAX_BUILDING_HEIGHT_MM || h <= knee) {
+      return Math.min(h, MAX_BUILDING_HEIGHT_MM);
+    }
+    return knee + (MAX_BUILDING_HEIGHT_MM - knee) * compress((h - knee) / (top - knee));
+  };
+
+  return buildings.map((b) => {
+    let wall = map(b.heightMm);
+    let total = map(b.heightMm + (b.roof?.heightMm ?? 0));
+    let underside = map(b.minHeightMm ?? 0);
+    if (total > 0 && total < minHeightMm) {
+      // Grow small buildings whole, roof and all
+      const lift = minHeightMm / total;
+      wall *= lift;
+      total *= lift;
+      underside *= lift;
+    }
+    const roofMm = total - wall;
+    underside = Math.min(underside, wall * 0.9);
+    return {
+      ...b,
+      heightMm: wall,
+      minHeightMm: underside > 0 ? underside : undefined,
+      roof: b.roof && roofMm > 0 ? { ...b.roof, heightMm: roofMm } : undefined,
+    };
+  });
+}
+
+/** Mapped buildings a scene stands for, counting each merged footprint as the buildings it was made from. */
+export function buildingCount(buildings: BuildingData[]): number {
+  return buildings.reduce((n, b) => n + (b.count ?? 1), 0);
+}
+
+/** Ray-casting point-in-polygon test (holes ignored). */
+export function pointInPolygon([x, y]: Point2D, ring: Polygon): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+/** Smallest tree that still prints as a recognisable shape (mm) */
+const MIN_TREE_HEIGHT_MM = 2.5;
+const MIN_CROWN_RADIUS_MM = 1;
+
+/** Most trees a model will carry — beyond this they are thinned evenly */
+const MAX_TREES = 1500;
+
+/** Spacing of trees sampled along a natural=tree_row, in metres */
+export const TREE_ROW_SPACING_M = 8;
+
+/**
+ * Size a tree from its OSM tags (height, diameter_crown, leaf_type),
+ * defaulting to a typical 10 m street tree, and never below the
+ * smallest printable size.
+ */
+export function treeData(
+  tags: Record<string, string>,
+  position: Point2D,
+  scaleMMperM: number
+): TreeData {
+  const heightM = parseMetres(tags["height"]) || 10;
+  const crownM = parseMetres(tags["diameter_crown"]) || heightM * 0.6;
+  return {
+    position,
+    heightMm: Math.max(heightM * scaleMMperM, MIN_TREE_HEIGHT_MM),
+    crownRadiusMm: Math.max((crownM / 2) * scaleMMperM, MIN_CROWN_RADIUS_MM),
+    shape: tags["leaf_type"] === "needleleaved" ? "cone" : "lollipop",
+  };
+}
+
+/**
+ * Evenly spaced points along a polyline, centred so both ends get the
+ * same margin. A line shorter than the spacing gets one midpoint.
+ */
+export function pointsAlong(line: Point2D[], spacing: number): Point2D[] {
+  const lengths = line.slice(1).map((p, i) => Math.hypot(p[0] - line[i][0], p[1] - line[i][1]));
+  const total = lengths.reduce((a, b) => a + b, 0);
+  const count = Math.floor(total / spacing) + 1;
+  const start = (total - (count - 1) * spacing) / 2;
+
+  const points: Point2D[] = [];
+  let seg = 0;
+  let segStart = 0;
+  for (let i = 0; i < count; i++) {
+    const d = start + i * spacing;
+    while (seg < lengths.length - 1 && segStart + lengths[seg] < d) segStart += lengths[seg++];
+    const t = lengths[seg] > 0 ? (d - segStart) / lengths[seg] : 0;
+    const [ax, ay] = line[seg];
+    const [bx, by] = line[seg + 1];
+    points.push([ax + (bx - ax) * t, ay + (by - ay) * t]);
+  }
+  return points;
+}
+
+/**
+ * Keep dense areas printable: drop trees whose crowns would mostly
+ * overlap one already kept, then thin evenly down to MAX_TREES. Input
+ * order decides which survive, so the result is reproducible.
+ */
+export function capTreeDensity(trees: TreeData[]): TreeData[] {
+  if (trees.length === 0) return trees;
+  const cell = Math.max(...trees.map((t) => t.crownRadiusMm)) * 1.5;
+  const grid = new Map<string, TreeData[]>();
+  const kept: TreeData[] = [];
+
+  for (const tree of trees) {
+    const [x, y] = tree.position;
+    const gx = Math.floor(x / cell);
+    const gy = Math.floor(y / cell);
+    let crowded = false;
+    for (let dx = -1; dx <= 1 && !crowded; dx++) {
+      for (let dy = -1; dy <= 1 && !crowded; dy++) {
+        crowded = (grid.get(`${gx + dx},${gy + dy}`) ?? []).some(
+          (other) =>
+            Math.hypot(other.position[0] - x, other.position[1] - y) <
+            Math.max(other.crownRadiusMm, tree.crownRadiusMm) * 1.5
+        );
+      }
+    }
+    if (crowded) continue;
+    kept.push(tree);
+    const key = `${gx},${gy}`;
+    grid.set(key, [...(grid.get(key) ?? []), tree]);
+  }
+
+  if (kept.length <= MAX_TREES) return kept;
+  const step = kept.length / MAX_TREES;
+  return Array.from({ length: MAX_TREES }, (_, i) => kept[Math.floor(i * step)]);
 }
 
 /**
@@ -304,91 +906,170 @@ function roadHalfWidthMetres(kind: RoadData["kind"]): number {
   }
 }
 
+/** How a buffered line is finished at its bends and at its two ends */
+export interface LineBufferOptions {
+  join?: "round" | "mitre";
+  cap?: "round" | "butt";
+  /**
+   * Longest a mitre may reach, as a multiple of the half-width, before
+   * the corner is bevelled off instead (so hairpins don't spike out).
+   */
+  mitreLimit?: number;
+}
+
+/** Segments in a full circle of a round join or cap */
+const ROUND_SEGMENTS = 16;
+
+/** Arc from `from` to `to` (radians, counter-clockwise if to > from) around p, both ends included */
+function arcPoints([x, y]: Point2D, r: number, from: number, to: number): Point2D[] {
+  const steps = Math.max(1, Math.ceil((Math.abs(to - from) / (Math.PI * 2)) * ROUND_SEGMENTS));
+  return Array.from({ length: steps + 1 }, (_, i): Point2D => {
+    const a = from + ((to - from) * i) / steps;
+    return [x + r * Math.cos(a), y + r * Math.sin(a)];
+  });
+}
+
 /**
- * Buffer a line (array of 2D points in model mm) into a polygon strip.
- * Each segment gets a perpendicular offset to create the road width.
+ * Buffer a line (array of 2D points in model mm) into a clean strip of
+ * the given half-width.
+ *
+ * The strip is built as the union of simple convex pieces: a rectangle
+ * per segment, a wedge on the outside of every bend (round, or a mitre
+ * bevelled beyond the limit) and optional round caps. Neighbouring pieces
+ * share their corner points exactly, and the union resolves any overlap,
+ * so sharp bends keep their full width and hairpins or loops never fold
+ * the outline back over itself — a road that closes on itself comes out
+ * with a hole.
  */
 export function bufferLineToPolygon(
   line: Point2D[],
-  halfWidthMm: number
-): Polygon {
-  if (line.length < 2) return [];
-
-  const left: Point2D[] = [];
-  const right: Point2D[] = [];
-
-  for (let i = 0; i < line.length; i++) {
-    let nx: number, ny: number;
-
-    if (i === 0) {
-      // First point: use direction to next point
-      const dx = line[1][0] - line[0][0];
-      const dy = line[1][1] - line[0][1];
-      const len = Math.sqrt(dx * dx + dy * dy) || 1;
-      nx = -dy / len;
-      ny = dx / len;
-    } else if (i === line.length - 1) {
-      // Last point: use direction from previous point
-      const dx = line[i][0] - line[i - 1][0];
-      const dy = line[i][1] - line[i - 1][1];
-      const len = Math.sqrt(dx * dx + dy * dy) || 1;
-      nx = -dy / len;
-      ny = dx / len;
-    } else {
-      // Middle point: average of the two adjacent segment normals
-      const dx1 = line[i][0] - line[i - 1][0];
-      const dy1 = line[i][1] - line[i - 1][1];
-      const len1 = Math.sqrt(dx1 * dx1 + dy1 * dy1) || 1;
-      const nx1 = -dy1 / len1;
-      const ny1 = dx1 / len1;
-
-      const dx2 = line[i + 1][0] - line[i][0];
-      const dy2 = line[i + 1][1] - line[i][1];
-      const len2 = Math.sqrt(dx2 * dx2 + dy2 * dy2) || 1;
-      const nx2 = -dy2 / len2;
-      const ny2 = dx2 / len2;
-
-      nx = (nx1 + nx2) / 2;
-      ny = (ny1 + ny2) / 2;
-      const nlen = Math.sqrt(nx * nx + ny * ny) || 1;
-      nx /= nlen;
-      ny /= nlen;
+  halfWidthMm: number,
+  { join = "round", cap = "round", mitreLimit = 2 }: LineBufferOptions = {}
+): PolygonWithHoles[] {
+  const pts = line.filter(
+    (p, i) => i === 0 || p[0] !== line[i - 1][0] || p[1] !== line[i - 1][1]
+  );
+  if (pts.length < 2 || !(halfWidthMm > 0)) return [];
+
+  // Left-hand unit normal of each segment
+  const normals = pts.slice(1).map(([x, y], i): Point2D => {
+    const dx = x - pts[i][0];
+    const dy = y - pts[i][1];
+    const len = Math.hypot(dx, dy);
+    return [-dy / len, dx / len];
+  });
+  const offset = ([x, y]: Point2D, [nx, ny]: Point2D, side: number): Point2D => [
+    x + nx * halfWidthMm * side,
+    y + ny * halfWidthMm * side,
+  ];
+
+  const pieces: Polygon[] = normals.map((n, i) => [
+    offset(pts[i], n, -1),
+    offset(pts[i + 1], n, -1),
+    offset(pts[i + 1], n, 1),
+    offset(pts[i], n, 1),
+  ]);
+
+  for (let i = 1; i < pts.length - 1; i++) {
+    const n1 = normals[i - 1];
+    const n2 = normals[i];
+    const cross = n1[0] * n2[1] - n1[1] * n2[0];
+    if (Math.abs(cross) < 1e-9 && n1[0] * n2[0] + n1[1] * n2[1] > 0) continue; // straight on
+    // The gap opens on the outside of the bend: right for a left turn
+    const side = cross > 0 ? -1 : 1;
+    const a = offset(pts[i], n1, side);
+    const b = offset(pts[i], n2, side);
+
+    if (join === "round") {
+      const from = Math.atan2(n1[1] * side, n1[0] * side);
+      let sweep = Math.atan2(n2[1] * side, n2[0] * side) - from;
+      if (side > 0 && sweep > 0) sweep -= Math.PI * 2;
+      if (side < 0 && sweep < 0) sweep += Math.PI * 2;
+      const arc = arcPoints(pts[i], halfWidthMm, from, from + sweep);
+      pieces.push([pts[i], a, ...arc.slice(1, -1), b]);
+      continue;
+    }
+
+    const mx = n1[0] + n2[0];
+    const my = n1[1] + n2[1];
+    const mlen = Math.hypot(mx, my);
+    // Mitre length over half-width is 1 / cos(half the turn)
+    const reach = mlen > 0 ? 2 / mlen : Infinity;
+    if (reach <= mitreLimit) {
+      const tip: Point2D = [
+        pts[i][0] + (mx / mlen) * reach * halfWidthMm * side,
+        pts[i][1] + (my / mlen) * reach * halfWidthMm * side,
+      ];
+      pieces.push([pts[i], a, tip, b]);
+    } else if (Math.abs(cross) > 1e-9) {
+      pieces.push([pts[i], a, b]);
     }
+  }
 
-    left.push([line[i][0] + nx * halfWidthMm, line[i][1] + ny * halfWidthMm]);
-    right.push([line[i][0] - nx * halfWidthMm, line[i][1] - ny * halfWidthMm]);
+  if (cap === "round") {
+    const [n0, nEnd] = [normals[0], normals[normals.length - 1]];
+    const start = Math.atan2(n0[1], n0[0]);
+    const end = Math.atan2(nEnd[1], nEnd[0]);
+    // Each cap is a half disc sharing its diameter with the end of the strip
+    pieces.push([offset(pts[0], n0, 1), ...arcPoints(pts[0], halfWidthMm, start, start + Math.PI).slice(1, -1), offset(pts[0], n0, -1)]);
+    const last = pts[pts.length - 1];
+    pieces.push([offset(last, nEnd, -1), ...arcPoints(last, halfWidthMm, end - Math.PI, end).slice(1, -1), offset(last, nEnd, 1)]);
   }
 
-  // Form a closed polygon: left side forward, right side reversed
-  return [...left, ...right.reverse()];
+  return unionWherePossible(pieces.map((polygon) => ({ polygon })));
+}
+
+/**
+ * Grow a shape outwards by `deltaMm` all round — its holes shrink to
+ * match — by sweeping a round-ended strip along each of its rings.
+ */
+export function growPolygon(shape: PolygonWithHoles, deltaMm: number): PolygonWithHoles[] {
+  if (!(deltaMm > 0)) return [shape];
+  const bands = [shape.polygon, ...(shape.holes ?? [])].flatMap((ring) =>
+    bufferLineToPolygon([...ring, ring[0]], deltaMm)
+  );
+  return unionPolygons([shape, ...bands]);
 }
 
 /**
  * Project a road linestring (lat/lon) to model-space and buffer it
- * into a polygon strip, clipped to the base plate.
+ * into a polygon strip, clipped to the base plate. Railways get mitred
+ * bends and square ends; everything else is rounded so junctions join
+ * up cleanly.
  */
 export function projectRoad(
   coords: [number, number][],
-  bounds: Bounds,
+  selection: Selection,
   scaleMMperM: number,
-  kind: RoadData["kind"],
-  modelWidthMm: number,
-  modelDepthMm: number,
-  bearingDeg = 0
-): Polygon {
-  // Project line points to model mm, then rotate to match map bearing
-  const line: Point2D[] = coords.map(([lat, lon]) => {
-    const [xm, ym] = latLonToLocalMetres(lat, lon, bounds);
-    const mm: Point2D = [xm * scaleMMperM, ym * scaleMMperM];
-    return bearingDeg ? rotatePoint(mm[0], mm[1], bearingDeg) : mm;
-  });
-
+  kind: RoadData["kind"]
+): PolygonWithHoles[] {
+  const line = projectPolygon(coords, selection, scaleMMperM, false);
   const halfWidthMm = roadHalfWidthMetres(kind) * scaleMMperM;
-  const poly = bufferLineToPolygon(line, halfWidthMm);
-  if (poly.length < 3) return [];
+  const strip = bufferLineToPolygon(
+    line,
+    halfWidthMm,
+    kind === "railway" ? { join: "mitre", cap: "butt" } : { join: "round", cap: "round" }
+  );
 
   // Clip to base plate
-  const halfW = modelWidthMm / 2;
-  const halfD = modelDepthMm / 2;
-  return clipPolygon(poly, -halfW, -halfD, halfW, halfD);
+  const halfW = (selection.widthM * scaleMMperM) / 2;
+  const halfD = (selection.heightM * scaleMMperM) / 2;
+  const plate: Polygon = [
+    [-halfW, -halfD],
+    [halfW, -halfD],
+    [halfW, halfD],
+    [-halfW, halfD],
+  ];
+  try {
+    return intersectPolygons(strip, [{ polygon: plate }]);
+  } catch (err) {
+    console.warn("Road clipping failed, clipping ring by ring instead:", err);
+    return strip.flatMap((s) => {
+      const polygon = clipPolygon(s.polygon, -halfW, -halfD, halfW, halfD);
+      if (polygon.length < 3) return [];
+      // Keep the strip's holes (the middle of a roundabout or a looped road)
+      const holes = s.holes?.map((h) => clipPolygon(h, -halfW, -halfD, halfW, halfD)).filter((h) => h.length >= 3);
+      return [{ polygon, ...(holes && holes.length > 0 && { holes }) }];
+    });
+  }
 }
@@ -0,0 +1,1052 @@
+import * as THREE from "three";
+import { mergeGeometries } from "three/examples/jsm/utils/BufferGeometryUtils.js";
+import type { Point2D, Polygon, PolygonWithHoles, ReliefSettings, RoadData, SceneData } from "./types";
+import {
+  BASE_THICKNESS_MM,
+  bufferLineToPolygon,
+  clipPolygon,
+  pointInPolygon,
+  pointsAlong,
+  ringArea,
+  subtractPolygons,
+  unionPolygons,
+} from "./geometryUtils";
+import { groundSampler, TERRAIN_GRID_MM, type GroundSampler } from "./elevation";
+import { roofMesh } from "./roofGeometry";
+import { treeMesh } from "./treeGeometry";
+
+/*
+ * Model-space geometry shared by the 3D preview and the file exporters.
+ *
+ * Everything here is built Z-up in millimetres: X = east, Y = north,
+ * with the base plate centred on the origin so its top surface sits at
+ * z = BASE_THICKNESS_MM / 2. The preview rotates the whole group into
+ * three.js' Y-up world; exporters just translate it onto z = 0.
+ */
+
+/** Width of the dark frame around the base plate, in mm */
+export const FRAME_WIDTH_MM = 3;
+
+/** Frame height in mm — stands proud of the base on both faces */
+export const FRAME_HEIGHT_MM = BASE_THICKNESS_MM + 1.5;
+
+/** Road surface sits this far above the top of the base plate (mm) */
+export const ROAD_LIFT_MM = 0.25;
+
+/** Raised thickness of each road kind above the road surface (mm) */
+export const ROAD_DEPTH_MM: Record<RoadData["kind"], number> = {
+  major: 0.35,
+  minor: 0.25,
+  railway: 0.3,
+  path: 0.15,
+};
+
+/** Clearance under a bridge deck per OSM layer it sits on (mm) */
+export const BRIDGE_CLEARANCE_MM = 1.5;
+
+/** Bridge decks are a little thicker than any road so they print rigid (mm) */
+export const BRIDGE_DECK_MM = 0.8;
+
+/** Distance over which a deck climbs from the ground at its ends to full clearance (mm) */
+const BRIDGE_RAMP_MM = 4;
+
+/** Piers stand this far apart along a bridge, and are this thick (mm) */
+const BRIDGE_PIER_SPACING_MM = 12;
+const BRIDGE_PIER_RADIUS_MM = 0.5;
+
+/** Water is sunk this far below the top of the base plate (mm) */
+export const WATER_SINK_MM = 0.3;
+
+/** Total thickness of the water layer (mm) */
+export const WATER_DEPTH_MM = 0.5;
+
+/**
+ * Green space is sunk into the base like water, so the colour change has
+ * some depth to print, and stands just proud of it — below water and road
+ * surfaces, so ponds and paths in a park stay visible.
+ */
+export const GREENERY_SINK_MM = 0.3;
+export const GREENERY_DEPTH_MM = 0.45;
+
+/** In relief mode, a coloured inlay this thick lines each channel floor (mm) */
+export const RELIEF_INLAY_MM = 0.2;
+
+/** Relief channels never leave less than this much base plate beneath (mm) */
+const MIN_RELIEF_FLOOR_MM = 1;
+
+/** On terrain, draped features reach this far into the ground so they stay attached (mm) */
+const TERRAIN_EMBED_MM = 0.4;
+
+/** Trees are sunk this far into whatever they stand on so they print attached (mm) */
+const TREE_EMBED_MM = 0.2;
+
+/** In the preview, seams between plates show as dark lines this wide, standing this far proud of the base (mm) */
+const SEAM_WIDTH_MM = 0.4;
+const SEAM_RISE_MM = 0.7;
+
+/**
+ * Neighbouring plates of a tiled print are locked together by bow-tie
+ * keys, each pressed into a pocket this deep in the two plate undersides (mm)
+ */
+export const KEY_DEPTH_MM = 1.5;
+
+/** Half a key's length across the seam, and its half-width at the ends and at the waist (mm) */
+const KEY_HALF_LENGTH_MM = 7;
+const KEY_HALF_WIDTH_MM = 4;
+const KEY_HALF_WAIST_MM = 2;
+
+/** Keys print this much smaller than their pockets all round, so they press in (mm) */
+const KEY_CLEARANCE_MM = 0.15;
+
+/** Roughly how far apart keys sit along a seam (mm) */
+const KEY_SPACING_MM = 40;
+
+/** Grid cells holding less of the model than this aren't printed as plates (mm²) */
+const MIN_PLATE_AREA_MM2 = 1;
+
+/** Display colour of each layer — preview materials and exporters share these */
+export const LAYER_COLORS = {
+  base: "#e5e5e5",
+  frame: "#1a1a1a",
+  buildings: "#d0d0d0",
+  roads: "#808080",
+  water: "#60a5fa",
+  greenery: "#86b86b",
+  trees: "#3f7d3a",
+} as const;
+
+const BASE_TOP_MM = BASE_THICKNESS_MM / 2;
+
+const ROAD_KINDS: RoadData["kind"][] = ["major", "minor", "path", "railway"];
+
+const ROAD_KIND_NAMES: Record<RoadData["kind"], string> = {
+  major: "Major roads",
+  minor: "Minor roads",
+  path: "Paths",
+  railway: "Railways",
+};
+
+// ---- Helpers to turn 2D polygon outlines into three.js geometry ----
+
+function ringToPath<T extends THREE.Path>(path: T, ring: Polygon): T {
+  for (let i = 0; i < ring.length; i++) {
+    const [x, y] = ring[i];
+    if (i === 0) path.moveTo(x, y);
+    else path.lineTo(x, y);
+  }
+  path.closePath();
+  return path;
+}
+
+export function polygonToShape(poly: Polygon, holes?: Polygon[]): THREE.Shape {
+  const shape = ringToPath(new THREE.Shape(), poly);
+  if (holes) {
+    for (const hole of holes) {
+      shape.holes.push(ringToPath(new THREE.Path(), hole));
+    }
+  }
+  return shape;
+}
+
+/**
+ * A vertical extrusion of a 2D outline. Every printable layer is made of
+ * these, so the preview meshes and the print pipeline share one source.
+ */
+export interface Prism {
+  polygon: Polygon;
+  holes?: Polygon[];
+  /** Z of the underside, in model mm */
+  bottom: number;
+  height: number;
+  /** Lift every vertex by the ground height beneath it (terrain scenes) */
+  drape?: GroundSampler;
+}
+
+/** A closed triangle mesh for parts that aren't extrusions (e.g. the terrain base) */
+export interface IndexedMesh {
+  /** xyz per vertex */
+  positions: Float32Array;
+  /** Three vertex indices per triangle, wound counter-clockwise from outside */
+  indices: Uint32Array;
+}
+
+/**
+ * Extrude a prism with three.js. ExtrudeGeometry fixes up the winding
+ * of outer rings and holes itself, so every result is a closed shell
+ * with outward-facing triangles.
+ */
+export function prismGeometry(prism: Prism): THREE.BufferGeometry {
+  const shape = polygonToShape(prism.polygon, prism.holes);
+  const geo = new THREE.ExtrudeGeometry(shape, { depth: prism.height, bevelEnabled: false });
+  if (prism.bottom !== 0) geo.translate(0, 0, prism.bottom);
+  if (prism.drape) {
+    const pos = geo.getAttribute("position");
+    for (let i = 0; i < pos.count; i++) {
+      pos.setZ(i, pos.getZ(i) + prism.drape(pos.getX(i), pos.getY(i)));
+    }
+    geo.computeVertexNormals();
+  }
+  return geo;
+}
+
+/** Flat-shaded three.js geometry for an indexed mesh. */
+function meshGeometry(mesh: IndexedMesh): THREE.BufferGeometry {
+  const indexed = new THREE.BufferGeometry();
+  indexed.setAttribute("position", new THREE.BufferAttribute(mesh.positions, 3));
+  indexed.setIndex(new THREE.BufferAttribute(mesh.indices, 1));
+  const geo = indexed.toNonIndexed();
+  indexed.dispose();
+  geo.computeVertexNormals();
+  return geo;
+}
+
+/** Extrude a batch of prisms (plus any meshes) into one merged geometry. */
+function prismsToGeometry(prisms: Prism[], meshes: IndexedMesh[] = []): THREE.BufferGeometry | null {
+  if (prisms.length === 0 && meshes.length === 0) return null;
+  const geos = [...prisms.map(prismGeometry), ...meshes.map(meshGeometry)];
+  if (meshes.length > 0) {
+    // Meshes carry no UVs; the attribute sets must match to merge
+    for (const g of geos) g.deleteAttribute("uv");
+  }
+  const merged = mergeGeometries(geos, false);
+  for (const g of geos) g.dispose();
+  return merged;
+}
+
+// ---- Layer definitions ----
+
+/**
+ * Insert points along a ring so no edge is longer than maxLen. Draped
+ * prisms only bend at their vertices, so long edges would otherwise cut
+ * straight through a hill or float over a valley.
+ */
+function densifyRing(ring: Polygon, maxLen = TERRAIN_GRID_MM): Polygon {
+  const out: Polygon = [];
+  for (let i = 0; i < ring.length; i++) {
+    const [x0, y0] = ring[i];
+    const [x1, y1] = ring[(i + 1) % ring.length];
+    const steps = Math.max(1, Math.ceil(Math.hypot(x1 - x0, y1 - y0) / maxLen));
+    for (let s = 0; s < steps; s++) {
+      const t = s / steps;
+      out.push([x0 + (x1 - x0) * t, y0 + (y1 - y0) * t]);
+    }
+  }
+  return out;
+}
+
+/** A feature following the terrain, sunk slightly into it and raised `above` over it. */
+function drapedPrism(shape: PolygonWithHoles, above: number, ground: GroundSampler): Prism {
+  return {
+    polygon: densifyRing(shape.polygon),
+    holes: shape.holes?.map((h) => densifyRing(h)),
+    bottom: BASE_TOP_MM - TERRAIN_EMBED_MM,
+    height: TERRAIN_EMBED_MM + above,
+    drape: ground,
+  };
+}
+
+/**
+ * Walls run from the building's min height (usually the ground) up to
+ * its wall tops. On terrain, buildings keep level tops: each stands on
+ * the lowest ground under its footprint (so it never floats) and gains
+ * the average slope under it in height, so the top sits where it would
+ * on flat ground. Raised parts just float at their height above that
+ * average.
+ */
+export function buildingPrisms(buildings: SceneData["buildings"], ground?: GroundSampler): Prism[] {
+  return buildings.map((b) => {
+    const minHeight = b.minHeightMm ?? 0;
+    let floor = 0;
+    let level = 0;
+    if (ground) {
+      const heights = b.polygon.map(([x, y]) => ground(x, y));
+      level = heights.reduce((a, h) => a + h, 0) / heights.length;
+      floor = minHeight > 0 ? level : Math.min(...heights);
+    }
+    const bottom = BASE_TOP_MM + floor + minHeight;
+    return { polygon: b.polygon, holes: b.holes, bottom, height: BASE_TOP_MM + level + b.heightMm - bottom };
+  });
+}
+
+/** Roof solids for the buildings that have one, sitting on their wall tops. */
+export function buildingRoofMeshes(buildings: SceneData["buildings"], ground?: GroundSampler): IndexedMesh[] {
+  const walls = buildingPrisms(buildings, ground);
+  const meshes: IndexedMesh[] = [];
+  buildings.forEach((b, i) => {
+    const mesh = b.roof && roofMesh(b, b.roof, walls[i].bottom + walls[i].height);
+    if (mesh) meshes.push(mesh);
+  });
+  return meshes;
+}
+
+/**
+ * Total depth cut into the base for a relief channel: the visible depth
+ * plus the inlay that lines its floor.
+ */
+function reliefCutDepth(depthMm: number): number {
+  return Math.min(depthMm + RELIEF_INLAY_MM, BASE_THICKNESS_MM - MIN_RELIEF_FLOOR_MM);
+}
+
+/** Inlay prism lining the floor of a relief channel */
+function reliefInlay(shape: PolygonWithHoles, depthMm: number): Prism {
+  return {
+    polygon: shape.polygon,
+    holes: shape.holes,
+    bottom: BASE_TOP_MM - reliefCutDepth(depthMm),
+    height: RELIEF_INLAY_MM,
+  };
+}
+
+/**
+ * Roads are extruded from the base top so they stay attached to it in
+ * print; the top surface matches the old floating strips in the preview.
+ * In relief mode they become inlays at the bottom of their channels; on
+ * terrain (which takes precedence over relief) they drape over the ground.
+ */
+export function roadPrisms(
+  roads: SceneData["roads"],
+  relief?: ReliefSettings,
+  ground?: GroundSampler
+): Prism[] {
+  // Bridges are raised separately (see bridgePrisms)
+  return roads.filter((r) => !r.bridge).map((r) => {
+    const height = ROAD_LIFT_MM + ROAD_DEPTH_MM[r.kind];
+    if (ground) return drapedPrism(r, height, ground);
+    return relief
+      ? reliefInlay(r, relief.roads[r.kind])
+      : { polygon: r.polygon, holes: r.holes, bottom: BASE_TOP_MM, height };
+  });
+}
+
+/**
+ * Arc length along a polyline to the point on it nearest p, with the
+ * line's total length.
+ */
+function polylineSpan(line: Point2D[]) {
+  const cumulative = [0];
+  for (let i = 1; i < line.length; i++) {
+    cumulative.push(cumulative[i - 1] + Math.hypot(line[i][0] - line[i - 1][0], line[i][1] - line[i - 1][1]));
+  }
+
+  const along = ([px, py]: Point2D): number => {
+    let best = Infinity;
+    let bestS = 0;
+    for (let i = 1; i < line.length; i++) {
+      const [ax, ay] = line[i - 1];
+      const dx = line[i][0] - ax;
+      const dy = line[i][1] - ay;
+      const len2 = dx * dx + dy * dy;
+      const t = len2 > 0 ? Math.min(Math.max(((px - ax) * dx + (py - ay) * dy) / len2, 0), 1) : 0;
+      const d = Math.hypot(ax + dx * t - px, ay + dy * t - py);
+      if (d < best) {
+        best = d;
+        bestS = cumulative[i - 1] + t * (cumulative[i] - cumulative[i - 1]);
+      }
+    }
+    return bestS;
+  };
+
+  return { length: cumulative[cumulative.length - 1], along };
+}
+
+/**
+ * Height of a bridge deck's underside above the base top: level with
+ * the ground at each end, climbing to its clearance over the ramps. On
+ * terrain the deck runs straight between the ground at its two ends
+ * rather than dipping into the valley it spans.
+ */
+function bridgeDeckLift(road: RoadData, ground?: GroundSampler) {
+  const line = road.centreline ?? [];
+  const { length, along } = polylineSpan(line);
+  const clearance = BRIDGE_CLEARANCE_MM * (road.layer ?? 1);
+  const startZ = ground && line.length > 0 ? ground(...line[0]) : 0;
+  const endZ = ground && line.length > 0 ? ground(...line[line.length - 1]) : 0;
+
+  const lift: GroundSampler = (x, y) => {
+    const s = along([x, y]);
+    const t = length > 0 ? s / length : 0;
+    const ramp = Math.min(1, s / BRIDGE_RAMP_MM, (length - s) / BRIDGE_RAMP_MM);
+    return startZ + (endZ - startZ) * t + clearance * Math.max(ramp, 0);
+  };
+  return { lift, length, along };
+}
+
+/** An octagonal pier under a deck, standing on whatever lies below. */
+function bridgePier(
+  [x, y]: Point2D,
+  deckZ: number,
+  bottom: number,
+  ground?: GroundSampler
+): Prism {
+  const polygon: Polygon = Array.from({ length: 8 }, (_, i) => {
+    const a = (i / 8) * Math.PI * 2;
+    return [x + BRIDGE_PIER_RADIUS_MM * Math.cos(a), y + BRIDGE_PIER_RADIUS_MM * Math.sin(a)];
+  });
+  const groundZ = ground ? ground(x, y) : 0;
+  // Reach halfway into the deck so the two fuse
+  const top = BASE_TOP_MM + deckZ + BRIDGE_DECK_MM / 2;
+  return { polygon, bottom: bottom + groundZ, height: top - bottom - groundZ };
+}
+
+/**
+ * Bridges as raised decks ramping up from the ground at each end, over
+ * the water and roads they cross, optionally standing on evenly spaced
+ * piers. Relief doesn't cut them into the base — only their piers reach
+ * down into the channels below.
+ */
+export function bridgePrisms(
+  roads: SceneData["roads"],
+  relief?: ReliefSettings,
+  ground?: GroundSampler,
+  piers = false
+): Prism[] {
+  const embed = ground ? TERRAIN_EMBED_MM : 0;
+  const pierBottom =
+    BASE_TOP_MM -
+    (relief && !ground
+      ? Math.max(reliefCutDepth(relief.water), ...Object.values(relief.roads).map(reliefCutDepth))
+      : TERRAIN_EMBED_MM);
+
+  const prisms: Prism[] = [];
+  for (const r of roads) {
+    if (!r.bridge) continue;
+    const { lift, length, along } = bridgeDeckLift(r, ground);
+    prisms.push({
+      polygon: densifyRing(r.polygon),
+      holes: r.holes?.map((h) => densifyRing(h)),
+      bottom: BASE_TOP_MM - embed,
+      height: BRIDGE_DECK_MM + embed,
+      drape: lift,
+    });
+    if (!piers || !r.centreline) continue;
+
+    // Only under the level span, and only where the deck is on the model
+    for (const p of pointsAlong(r.centreline, BRIDGE_PIER_SPACING_MM)) {
+      const s = along(p);
+      if (s < BRIDGE_RAMP_MM || s > length - BRIDGE_RAMP_MM || !pointInPolygon(p, r.polygon)) continue;
+      prisms.push(bridgePier(p, lift(...p), pierBottom, ground));
+    }
+  }
+  return prisms;
+}
+
+export function waterPrisms(
+  water: SceneData["water"],
+  relief?: ReliefSettings,
+  ground?: GroundSampler
+): Prism[] {
+  return water.map((w) => {
+    if (ground) return drapedPrism(w, WATER_DEPTH_MM - WATER_SINK_MM, ground);
+    return relief
+      ? reliefInlay(w, relief.water)
+      : { polygon: w.polygon, holes: w.holes, bottom: BASE_TOP_MM - WATER_SINK_MM, height: WATER_DEPTH_MM };
+  });
+}
+
+export function greeneryPrisms(greenery: SceneData["greenery"], ground?: GroundSampler): Prism[] {
+  return greenery.map((g) =>
+    ground
+      ? drapedPrism(g, GREENERY_DEPTH_MM - GREENERY_SINK_MM, ground)
+      : { polygon: g.polygon, holes: g.holes, bottom: BASE_TOP_MM - GREENERY_SINK_MM, height: GREENERY_DEPTH_MM }
+  );
+}
+
+/** Tree solids, standing on the base or the terrain under each trunk. */
+export function treeMeshes(trees: SceneData["trees"], ground?: GroundSampler): IndexedMesh[] {
+  return trees.map((t) =>
+    treeMesh(t, BASE_TOP_MM + (ground ? ground(...t.position) : 0) - TREE_EMBED_MM)
+  );
+}
+
+function rectangle(widthMm: number, depthMm: number): Polygon {
+  const hw = widthMm / 2;
+  const hd = depthMm / 2;
+  return [
+    [-hw, -hd],
+    [hw, -hd],
+    [hw, hd],
+    [-hw, hd],
+  ];
+}
+
+/** What the base plate covers: a shaped selection's outline, else the whole model rectangle */
+function modelOutline(sceneData: SceneData): Polygon {
+  return sceneData.outline ?? rectangle(sceneData.modelWidthMm, sceneData.modelDepthMm);
+}
+
+/**
+ * Engrave the relief channels into the base plate.
+ *
+ * Rather than a 3D boolean (too slow for the live preview) the plate is
+ * built as stacked terraces: a solid slab up to the deepest channel
+ * floor, then one band per distinct depth covering the plate minus every
+ * channel at least that deep. Each band is a flat prism, so the preview
+ * and the print pipeline can both extrude it directly.
+ */
+function reliefBasePrisms(outline: Polygon, sceneData: SceneData, relief: ReliefSettings): Prism[] {
+  const cuts: { shape: PolygonWithHoles; depth: number }[] = [
+    ...sceneData.roads
+      .filter((r) => !r.bridge)
+      .map((r) => ({ shape: r, depth: reliefCutDepth(relief.roads[r.kind]) })),
+    ...sceneData.water.map((w) => ({ shape: w, depth: reliefCutDepth(relief.water) })),
+  ];
+  // Deepest first, so each band's cut-out only ever grows
+  const depths = [...new Set(cuts.map((c) => c.depth))].filter((d) => d > 0).sort((a, b) => b - a);
+
+  const bottom = -BASE_TOP_MM;
+  const slabTop = BASE_TOP_MM - (depths[0] ?? 0);
+  const prisms: Prism[] = [{ polygon: outline, bottom, height: slabTop - bottom }];
+
+  let channels: PolygonWithHoles[] = [];
+  for (let i = 0; i < depths.length; i++) {
+    channels = unionPolygons([
+      ...channels,
+      ...cuts.filter((c) => c.depth === depths[i]).map((c) => c.shape),
+    ]);
+    const bandBottom = BASE_TOP_MM - depths[i];
+    const bandTop = BASE_TOP_MM - (depths[i + 1] ?? 0);
+    for (const piece of subtractPolygons([{ polygon: outline }], channels)) {
+      prisms.push({ ...piece, bottom: bandBottom, height: bandTop - bandBottom });
+    }
+  }
+  return prisms;
+}
+
+export function basePlatePrisms(sceneData: SceneData): Prism[] {
+  const outline = modelOutline(sceneData);
+  if (sceneData.relief) {
+    try {
+      return reliefBasePrisms(outline, sceneData, sceneData.relief);
+    } catch (err) {
+      // Polygon booleans can choke on degenerate OSM input — fall back to a flat plate
+      console.warn("Relief engraving failed, using a flat base plate:", err);
+    }
+  }
+  return [{ polygon: outline, bottom: -BASE_TOP_MM, height: BASE_THICKNESS_MM }];
+}
+
+/**
+ * The terrain base: a closed heightfield solid with a flat underside at
+ * the usual base bottom and its top following the ground, never thinner
+ * than the flat plate. Given a plate, just that plate's share of it.
+ */
+export function terrainBaseMesh(sceneData: SceneData, plate?: Plate): IndexedMesh | null {
+  const { terrain, modelWidthMm, modelDepthMm } = sceneData;
+  if (!terrain) return null;
+  if (plate) {
+    const piece = clipPolygon(modelOutline(sceneData), ...plate.bounds);
+    return outlineTerrainMesh(piece, sceneData, groundSampler(sceneData)!);
+  }
+  if (sceneData.outline) return outlineTerrainMesh(sceneData.outline, sceneData, groundSampler(sceneData)!);
+  const { cols, rows, heightsMm, exaggeration } = terrain;
+  const n = rows * cols;
+
+  // Top grid first, then the bottom grid directly beneath it
+  const positions = new Float32Array(n * 2 * 3);
+  for (let r = 0; r < rows; r++) {
+    const y = -modelDepthMm / 2 + (r / (rows - 1)) * modelDepthMm;
+    for (let c = 0; c < cols; c++) {
+      const x = -modelWidthMm / 2 + (c / (cols - 1)) * modelWidthMm;
+      const i = r * cols + c;
+      positions.set([x, y, BASE_TOP_MM + heightsMm[i] * exaggeration], i * 3);
+      positions.set([x, y, -BASE_TOP_MM], (n + i) * 3);
+    }
+  }
+
+  const indices: number[] = [];
+  for (let r = 0; r < rows - 1; r++) {
+    for (let c = 0; c < cols - 1; c++) {
+      const a = r * cols + c;
+      const b = a + 1;
+      const d = a + cols;
+      const e = d + 1;
+      indices.push(a, b, e, a, e, d);
+      indices.push(n + a, n + e, n + b, n + a, n + d, n + e);
+    }
+  }
+
+  // Side walls, walking the boundary counter-clockwise seen from above
+  const boundary: number[] = [];
+  for (let c = 0; c < cols - 1; c++) boundary.push(c);
+  for (let r = 0; r < rows - 1; r++) boundary.push(r * cols + cols - 1);
+  for (let c = cols - 1; c > 0; c--) boundary.push((rows - 1) * cols + c);
+  for (let r = rows - 1; r > 0; r--) boundary.push(r * cols);
+  for (let k = 0; k < boundary.length; k++) {
+    const p = boundary[k];
+    const q = boundary[(k + 1) % boundary.length];
+    indices.push(n + p, n + q, q, n + p, q, p);
+  }
+
+  return { positions, indices: new Uint32Array(indices) };
+}
+
+/**
+ * The terrain base cut to a shaped outline. The outline is triangulated
+ * and each triangle diced along the heightfield grid, so the top bends
+ * wherever the rectangular base would; top and underside share the same
+ * pieces, and walls close off the edges only one piece has.
+ */
+function outlineTerrainMesh(outline: Polygon, sceneData: SceneData, ground: GroundSampler): IndexedMesh {
+  const { cols, rows } = sceneData.terrain!;
+  const { modelWidthMm: w, modelDepthMm: d } = sceneData;
+  const cellW = w / (cols - 1);
+  const cellD = d / (rows - 1);
+  const positions: number[] = [];
+  const indices: number[] = [];
+  const lookup = new Map<string, number>();
+
+  // Top vertices keyed on position alone, so neighbouring pieces always share them
+  const vertex = ([x, y]: Point2D, top: boolean): number => {
+    const key = `${Math.round(x * 1e5)},${Math.round(y * 1e5)},${top ? "t" : "b"}`;
+    let index = lookup.get(key);
+    if (index === undefined) {
+      index = positions.length / 3;
+      positions.push(x, y, top ? BASE_TOP_MM + ground(x, y) : -BASE_TOP_MM);
+      lookup.set(key, index);
+    }
+    return index;
+  };
+  // Edges of the top faces, from the triangles actually kept
+  const topEdges = new Set<string>();
+  const triangle = (a: number, b: number, c: number, top: boolean) => {
+    if (a === b || b === c || a === c) return;
+    indices.push(a, b, c);
+    if (top) for (const [p, q] of [[a, b], [b, c], [c, a]]) topEdges.add(`${p},${q}`);
+  };
+
+  const below = new Map<number, number>();
+  const cell = (v: number, size: number, count: number) => Math.min(Math.max(Math.floor(v / size), 0), count - 2);
+
+  const contour = outline.map(([x, y]) => new THREE.Vector2(x, y));
+  for (const face of THREE.ShapeUtils.triangulateShape(contour, [])) {
+    const tri = face.map((i): Point2D => [contour[i].x, contour[i].y]);
+    if (ringArea(tri) < 0) tri.reverse();
+    const xs = tri.map(([x]) => x + w / 2);
+    const ys = tri.map(([, y]) => y + d / 2);
+    for (let r = cell(Math.min(...ys), cellD, rows); r <= cell(Math.max(...ys), cellD, rows); r++) {
+      for (let c = cell(Math.min(...xs), cellW, cols); c <= cell(Math.max(...xs), cellW, cols); c++) {
+        const x0 = -w / 2 + c * cellW;
+        const y0 = -d / 2 + r * cellD;
+        const piece = clipPolygon(tri, x0, y0, x0 + cellW, y0 + cellD);
+        if (piece.length < 3) continue;
+        const top = piece.map((p) => vertex(p, true));
+        const bottom = piece.map((p) => vertex(p, false));
+        top.forEach((t, k) => below.set(t, bottom[k]));
+        for (let k = 1; k < piece.length - 1; k++) {
+          triangle(top[0], top[k], top[k + 1], true);
+          triangle(bottom[0], bottom[k + 1], bottom[k], false);
+        }
+      }
+    }
+  }
+
+  // An edge with no twin running the other way lies on the outline
+  for (const edge of topEdges) {
+    const [a, b] = edge.split(",").map(Number);
+    if (topEdges.has(`${b},${a}`)) continue;
+    const p = below.get(a)!;
+    const q = below.get(b)!;
+    indices.push(p, q, b, p, b, a);
+  }
+
+  return { positions: new Float32Array(positions), indices: new Uint32Array(indices) };
+}
+
+/** Highest ground along the edge of the model, in mm above the flat base top */
+function terrainEdgeRise(sceneData: SceneData): number {
+  const ground = groundSampler(sceneData);
+  if (!ground) return 0;
+  return Math.max(0, ...densifyRing(modelOutline(sceneData)).map(([x, y]) => ground(x, y)));
+}
+
+/**
+ * The frame is a single ring hugging the base plate edges: a rectangle,
+ * or the outline of a shaped selection grown outwards with mitred
+ * corners. On terrain it grows upwards to stay proud of the highest edge.
+ */
+export function framePrism(sceneData: SceneData): Prism {
+  const { modelWidthMm, modelDepthMm, outline } = sceneData;
+  let polygon = rectangle(modelWidthMm + FRAME_WIDTH_MM * 2, modelDepthMm + FRAME_WIDTH_MM * 2);
+  if (outline) {
+    try {
+      // Run the band one segment past the start so the closing corner gets its mitre too
+      const band = bufferLineToPolygon([...outline, outline[0], outline[1]], FRAME_WIDTH_MM, {
+        join: "mitre",
+        cap: "butt",
+      });
+      polygon = unionPolygons([{ polygon: outline }, ...band])[0].polygon;
+    } catch (err) {
+      console.warn("Could not trace the frame around the outline, using a rectangle:", err);
+    }
+  }
+  return {
+    polygon,
+    holes: [modelOutline(sceneData)],
+    bottom: -FRAME_HEIGHT_MM / 2,
+    height: FRAME_HEIGHT_MM + terrainEdgeRise(sceneData),
+  };
+}
+
+// ---- Tiled plates ----
+
+/** One plate of a tiled print */
+export interface Plate {
+  /** Row letter counted from the top and column number from the left, e.g. "B3" */
+  label: string;
+  /** The plate's share of the model, [minX, minY, maxX, maxY] in model mm */
+  bounds: [number, number, number, number];
+}
+
+/** Positions of the grid lines dividing `size` into `count` plates, edges included */
+function gridLines(size: number, count: number): number[] {
+  return Array.from({ length: count + 1 }, (_, i) => -size / 2 + (i / count) * size);
+}
+
+/**
+ * The plates a scene prints as, in reading order from the top left.
+ * Cells a shaped outline doesn't reach are left out; an untiled scene
+ * is a single plate.
+ */
+export function modelPlates(sceneData: SceneData): Plate[] {
+  const { cols, rows } = sceneData.plates ?? { cols: 1, rows: 1 };
+  const xs = gridLines(sceneData.modelWidthMm, cols);
+  const ys = gridLines(sceneData.modelDepthMm, rows);
+  const outline = modelOutline(sceneData);
+  const plates: Plate[] = [];
+  for (let r = rows - 1; r >= 0; r--) {
+    for (let c = 0; c < cols; c++) {
+      const bounds: Plate["bounds"] = [xs[c], ys[r], xs[c + 1], ys[r + 1]];
+      if (Math.abs(ringArea(clipPolygon(outline, ...bounds))) < MIN_PLATE_AREA_MM2) continue;
+      plates.push({ label: `${String.fromCharCode(65 + rows - 1 - r)}${c + 1}`, bounds });
+    }
+  }
+  return plates;
+}
+
+/** A prism cut down to a rectangle, or null if nothing of it is left */
+function clipPrism(prism: Prism, bounds: Plate["bounds"]): Prism | null {
+  const polygon = clipPolygon(prism.polygon, ...bounds);
+  if (polygon.length < 3) return null;
+  // (P ∩ R) − (H ∩ R) is (P − H) ∩ R, so holes are cut the same way
+  const holes = prism.holes?.map((h) => clipPolygon(h, ...bounds)).filter((h) => h.length >= 3);
+  // e.g. the frame on a plate in the middle, where its hole covers everything
+  const area = Math.abs(ringArea(polygon)) - (holes ?? []).reduce((sum, h) => sum + Math.abs(ringArea(h)), 0);
+  if (area < 1e-6) return null;
+  return { ...prism, polygon, holes: holes?.length ? holes : undefined };
+}
+
+/**
+ * One layer cut down to a plate. Prisms are clipped exactly; meshes are
+ * kept if they reach onto the plate, and trimmed by the print pipeline.
+ */
+function plateLayerSpec(spec: LayerSpec, bounds: Plate["bounds"]): LayerSpec {
+  const [minX, minY, maxX, maxY] = bounds;
+  const overlaps = ({ positions }: IndexedMesh) => {
+    let [x0, y0, x1, y1] = [Infinity, Infinity, -Infinity, -Infinity];
+    for (let i = 0; i < positions.length; i += 3) {
+      x0 = Math.min(x0, positions[i]);
+      x1 = Math.max(x1, positions[i]);
+      y0 = Math.min(y0, positions[i + 1]);
+      y1 = Math.max(y1, positions[i + 1]);
+    }
+    return x0 < maxX && x1 > minX && y0 < maxY && y1 > minY;
+  };
+  return {
+    ...spec,
+    prisms: spec.prisms.map((p) => clipPrism(p, bounds)).filter((p): p is Prism => p !== null),
+    meshes: spec.meshes?.filter(overlaps),
+  };
+}
+
+/** A bow-tie centred on (x, y), running across a seam along X — or along Y when `acrossY` */
+function bowtie(x: number, y: number, acrossY: boolean, shrink = 0): Polygon {
+  const l = KEY_HALF_LENGTH_MM - shrink;
+  const w = KEY_HALF_WIDTH_MM - shrink;
+  const n = KEY_HALF_WAIST_MM - shrink;
+  const ring: Polygon = [[-l, -w], [0, -n], [l, -w], [l, w], [0, n], [-l, w]];
+  // A quarter turn keeps the winding counter-clockwise
+  return ring.map(([u, v]): Point2D => (acrossY ? [x - v, y + u] : [x + u, y + v]));
+}
+
+/** Keys spread along every seam between two plates, wherever the whole key lands on the base */
+function alignmentKeys(sceneData: SceneData): Polygon[] {
+  const { plates, modelWidthMm, modelDepthMm } = sceneData;
+  if (!plates) return [];
+  const xs = gridLines(modelWidthMm, plates.cols);
+  const ys = gridLines(modelDepthMm, plates.rows);
+  const along = (from: number, to: number) => {
+    const n = Math.max(1, Math.round((to - from) / KEY_SPACING_MM));
+    return Array.from({ length: n }, (_, k) => from + ((k + 0.5) / n) * (to - from));
+  };
+
+  const keys: Polygon[] = [];
+  for (const x of xs.slice(1, -1)) {
+    for (let r = 0; r < plates.rows; r++) {
+      for (const y of along(ys[r], ys[r + 1])) keys.push(bowtie(x, y, false));
+    }
+  }
+  for (const y of ys.slice(1, -1)) {
+    for (let c = 0; c < plates.cols; c++) {
+      for (const x of along(xs[c], xs[c + 1])) keys.push(bowtie(x, y, true));
+    }
+  }
+  const outline = modelOutline(sceneData);
+  return keys.filter((key) => key.every((p) => pointInPolygon(p, outline)));
+}
+
+/**
+ * Pockets for the alignment keys in the undersides of the plates. They
+ * start below the base so the cut comes out clean.
+ */
+export function keyPocketPrisms(sceneData: SceneData): Prism[] {
+  return alignmentKeys(sceneData).map((polygon) => ({
+    polygon,
+    bottom: -BASE_TOP_MM - 1,
+    height: KEY_DEPTH_MM + 1,
+  }));
+}
+
+/** How many alignment keys a tiled scene needs */
+export function alignmentKeyCount(sceneData: SceneData): number {
+  return alignmentKeys(sceneData).length;
+}
+
+/** The keys themselves, laid out in a grid on the print bed */
+export function alignmentKeyPrisms(count: number): Prism[] {
+  const perRow = Math.ceil(Math.sqrt(count));
+  const pitchX = KEY_HALF_LENGTH_MM * 2 + 3;
+  const pitchY = KEY_HALF_WIDTH_MM * 2 + 3;
+  return Array.from({ length: count }, (_, i) => ({
+    polygon: bowtie((i % perRow) * pitchX, Math.floor(i / perRow) * pitchY, false, KEY_CLEARANCE_MM),
+    bottom: 0,
+    height: KEY_DEPTH_MM - KEY_CLEARANCE_MM,
+  }));
+}
+
+/** Lines along the seams between plates, so the preview shows where the print splits */
+export function seamPrisms(sceneData: SceneData): Prism[] {
+  const { plates, modelWidthMm: w, modelDepthMm: d } = sceneData;
+  if (!plates) return [];
+  const outline = modelOutline(sceneData);
+  const half = SEAM_WIDTH_MM / 2;
+  const strips = [
+    ...gridLines(w, plates.cols).slice(1, -1).map((x) => clipPolygon(outline, x - half, -d / 2, x + half, d / 2)),
+    ...gridLines(d, plates.rows).slice(1, -1).map((y) => clipPolygon(outline, -w / 2, y - half, w / 2, y + half)),
+  ].filter((strip) => strip.length >= 3);
+
+  const ground = groundSampler(sceneData);
+  return strips.map((polygon) =>
+    ground
+      ? drapedPrism({ polygon }, SEAM_RISE_MM, ground)
+      : { polygon, bottom: -BASE_TOP_MM, height: BASE_THICKNESS_MM + SEAM_RISE_MM }
+  );
+}
+
+// ---- Preview geometry builders ----
+
+export function buildBuildingsGeometry(sceneData: SceneData): THREE.BufferGeometry | null {
+  const ground = groundSampler(sceneData);
+  return prismsToGeometry(
+    buildingPrisms(sceneData.buildings, ground),
+    buildingRoofMeshes(sceneData.buildings, ground)
+  );
+}
+
+export function buildRoadsGeometry(sceneData: SceneData): THREE.BufferGeometry | null {
+  const { roads, relief, bridgePiers } = sceneData;
+  const ground = groundSampler(sceneData);
+  return prismsToGeometry([
+    ...roadPrisms(roads, relief, ground),
+    ...bridgePrisms(roads, relief, ground, bridgePiers),
+  ]);
+}
+
+export function buildWaterGeometry(sceneData: SceneData): THREE.BufferGeometry | null {
+  return prismsToGeometry(waterPrisms(sceneData.water, sceneData.relief, groundSampler(sceneData)));
+}
+
+export function buildGreeneryGeometry(sceneData: SceneData): THREE.BufferGeometry | null {
+  return prismsToGeometry(greeneryPrisms(sceneData.greenery, groundSampler(sceneData)));
+}
+
+export function buildTreesGeometry(sceneData: SceneData): THREE.BufferGeometry | null {
+  return prismsToGeometry([], treeMeshes(sceneData.trees, groundSampler(sceneData)));
+}
+
+export function buildBasePlateGeometry(sceneData: SceneData): THREE.BufferGeometry {
+  const terrain = terrainBaseMesh(sceneData);
+  return terrain ? meshGeometry(terrain) : prismsToGeometry(basePlatePrisms(sceneData))!;
+}
+
+export function buildFrameGeometry(sceneData: SceneData): THREE.BufferGeometry {
+  return prismGeometry(framePrism(sceneData));
+}
+
+export function buildSeamsGeometry(sceneData: SceneData): THREE.BufferGeometry | null {
+  return prismsToGeometry(seamPrisms(sceneData));
+}
+
+/** The preview's single-colour meshes */
+export type PreviewLayer = "base" | "frame" | "seams" | "greenery" | "roads" | "trees" | "buildings" | "water";
+
+/** A geometry's vertex data as bare typed arrays, which can be transferred between threads */
+export interface GeometryBuffers {
+  positions: Float32Array;
+  normals: Float32Array;
+  index?: Uint32Array;
+}
+
+/** Every preview mesh of a scene; empty layers are left out */
+export type PreviewBuffers = Partial<Record<PreviewLayer, GeometryBuffers>>;
+
+function geometryBuffers(geometry: THREE.BufferGeometry): GeometryBuffers {
+  if (!geometry.getAttribute("normal")) geometry.computeVertexNormals();
+  const index = geometry.getIndex();
+  const buffers: GeometryBuffers = {
+    positions: new Float32Array(geometry.getAttribute("position").array),
+    normals: new Float32Array(geometry.getAttribute("normal").array),
+    ...(index && { index: new Uint32Array(index.array) }),
+  };
+  geometry.dispose();
+  return buffers;
+}
+
+/**
+ * Build the preview meshes of a scene as typed arrays — the expensive
+ * part of showing a model, so it runs in the scene worker.
+ */
+export function buildPreviewBuffers(sceneData: SceneData): PreviewBuffers {
+  const builders: [PreviewLayer, (s: SceneData) => THREE.BufferGeometry | null][] = [
+    ["base", buildBasePlateGeometry],
+    ["frame", buildFrameGeometry],
+    ["seams", buildSeamsGeometry],
+    ["greenery", buildGreeneryGeometry],
+    ["roads", buildRoadsGeometry],
+    ["trees", buildTreesGeometry],
+    ["buildings", buildBuildingsGeometry],
+    ["water", buildWaterGeometry],
+  ];
+  const buffers: PreviewBuffers = {};
+  for (const [layer, build] of builders) {
+    const geometry = build(sceneData);
+    if (geometry) buffers[layer] = geometryBuffers(geometry);
+  }
+  return buffers;
+}
+
+/** The typed arrays behind a set of preview buffers, for a transfer list */
+export function previewTransferables(buffers: PreviewBuffers): ArrayBuffer[] {
+  return Object.values(buffers).flatMap((b) =>
+    [b.positions, b.normals, b.index].flatMap((a) => (a ? [a.buffer as ArrayBuffer] : []))
+  );
+}
+
+/** Rebuild a three.js geometry from buffers made by buildPreviewBuffers. */
+export function geometryFromBuffers({ positions, normals, index }: GeometryBuffers): THREE.BufferGeometry {
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute("position", new THREE.BufferAttribute(positions, 3));
+  geometry.setAttribute("normal", new THREE.BufferAttribute(normals, 3));
+  if (index) geometry.setIndex(new THREE.BufferAttribute(index, 1));
+  return geometry;
+}
+
+// ---- Exporter layers ----
+
+/** The prisms making up one named, single-colour part of the model */
+export interface LayerSpec {
+  name: string;
+  color: string;
+  prisms: Prism[];
+  /** Closed meshes that belong to the layer but aren't prisms */
+  meshes?: IndexedMesh[];
+}
+
+/** One named, single-colour part of the printed model */
+export interface ModelLayer {
+  name: string;
+  color: string;
+  geometry: THREE.BufferGeometry;
+}
+
+export interface ModelLayerOptions {
+  /**
+   * Emit major roads, minor roads, paths and railways as separate layers
+   * (default) rather than one merged "Roads" layer.
+   */
+  splitRoadKinds?: boolean;
+  /** Only the part of the model on this plate of a tiled print */
+  plate?: Plate;
+}
+
+/**
+ * Every printable layer of the scene, bottom-up: where layers overlap the
+ * later one is the one you see. Empty layers are skipped.
+ */
+export function modelLayerSpecs(
+  sceneData: SceneData,
+  { splitRoadKinds = true, plate }: ModelLayerOptions = {}
+): LayerSpec[] {
+  const { relief } = sceneData;
+  const ground = groundSampler(sceneData);
+  const terrain = terrainBaseMesh(sceneData, plate);
+  const specs: LayerSpec[] = [
+    terrain
+      ? { name: "Base plate", color: LAYER_COLORS.base, prisms: [], meshes: [terrain] }
+      : { name: "Base plate", color: LAYER_COLORS.base, prisms: basePlatePrisms(sceneData) },
+    { name: "Frame", color: LAYER_COLORS.frame, prisms: [framePrism(sceneData)] },
+    { name: "Greenery", color: LAYER_COLORS.greenery, prisms: greeneryPrisms(sceneData.greenery, ground) },
+    { name: "Water", color: LAYER_COLORS.water, prisms: waterPrisms(sceneData.water, relief, ground) },
+  ];
+
+  const roadGroups = splitRoadKinds
+    ? ROAD_KINDS.map((kind) => ({
+        name: ROAD_KIND_NAMES[kind],
+        roads: sceneData.roads.filter((r) => r.kind === kind),
+      }))
+    : [{ name: "Roads", roads: sceneData.roads }];
+  for (const group of roadGroups) {
+    specs.push({ name: group.name, color: LAYER_COLORS.roads, prisms: roadPrisms(group.roads, relief, ground) });
+  }
+
+  specs.push({
+    name: "Bridges",
+    color: LAYER_COLORS.roads,
+    prisms: bridgePrisms(sceneData.roads, relief, ground, sceneData.bridgePiers),
+  });
+
+  specs.push({
+    name: "Trees",
+    color: LAYER_COLORS.trees,
+    prisms: [],
+    meshes: treeMeshes(sceneData.trees, ground),
+  });
+
+  specs.push({
+    name: "Buildings",
+    color: LAYER_COLORS.buildings,
+    prisms: buildingPrisms(sceneData.buildings, ground),
+    meshes: buildingRoofMeshes(sceneData.buildings, ground),
+  });
+
+  const plated = plate ? specs.map((s) => plateLayerSpec(s, plateReach(s, plate, sceneData))) : specs;
+  return plated.filter((s) => s.prisms.length > 0 || s.meshes?.length);
+}
+
+/**
+ * How far a layer reaches on a plate: its bounds, except that the frame
+ * runs on past the edges of the model where the plate meets them.
+ */
+function plateReach(spec: LayerSpec, { bounds }: Plate, sceneData: SceneData): Plate["bounds"] {
+  if (spec.name !== "Frame") return bounds;
+  const [minX, minY, maxX, maxY] = bounds;
+  // Grid lines can land a rounding error inside the model edges
+  const hw = sceneData.modelWidthMm / 2 - 1e-6;
+  const hd = sceneData.modelDepthMm / 2 - 1e-6;
+  const out = FRAME_WIDTH_MM * 2;
+  return [
+    minX <= -hw ? minX - out : minX,
+    minY <= -hd ? minY - out : minY,
+    maxX >= hw ? maxX + out : maxX,
+    maxY >= hd ? maxY + out : maxY,
+  ];
+}
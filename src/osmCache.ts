@@ -0,0 +1,179 @@
+import type { Selection } from "./types";
+import { selectionOutline, shapeArea, subtractPolygons } from "./geometryUtils";
+
+/*
+ * Overpass responses kept in IndexedDB, so generating the same area
+ * again — or any area inside one fetched before — skips the network,
+ * even after a reload. Raw responses are stored rather than parsed
+ * scenes, since the scene depends on the exact frame, print size and
+ * projection while the OSM data only depends on the area.
+ *
+ * Every failure here (private browsing, storage full, no IndexedDB)
+ * just means a cache miss.
+ */
+
+const DB_NAME = "city-to-print";
+/** What each cached query covered — small, so it's all read to look for a covering area */
+const AREAS = "overpassAreas";
+/** The responses themselves, under the same keys, only read on a hit */
+const RESPONSES = "overpassResponses";
+
+/** Bump when overpassQuery changes what it fetches, so older responses are ignored */
+const CACHE_VERSION = 1;
+
+/** How long a response is reused before it's fetched fresh */
+const CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Responses run to a few MB each; the oldest go beyond this many */
+const MAX_ENTRIES = 30;
+
+/** Bounding boxes are rounded outwards to this many degrees (~1m) before keying */
+const BBOX_STEP_DEG = 1e-5;
+
+/** This fraction of a new area left outside a cached one is rounding error, e.g. a circle touching its frame */
+const UNCOVERED_TOLERANCE = 1e-6;
+
+interface CachedArea {
+  /** Normalised bbox, "south,west,north,east" */
+  key: string;
+  version: number;
+  /** Area the query covered: the selection outline, as [lat, lon] */
+  outline: [number, number][];
+  bounds: [number, number, number, number];
+  /** Date.now() when Overpass answered */
+  fetchedAt: number;
+}
+
+/** A cached Overpass response and when it was fetched */
+export interface CachedResponse {
+  data: ArrayBuffer;
+  fetchedAt: number;
+}
+
+/** A selection's outline bbox, rounded outwards so near-identical frames share a key */
+function normalisedBounds(outline: [number, number][]): [number, number, number, number] {
+  const lats = outline.map(([lat]) => lat);
+  const lons = outline.map(([, lon]) => lon);
+  const down = (v: number) => Math.floor(v / BBOX_STEP_DEG) * BBOX_STEP_DEG;
+  const up = (v: number) => Math.ceil(v / BBOX_STEP_DEG) * BBOX_STEP_DEG;
+  return [down(Math.min(...lats)), down(Math.min(...lons)), up(Math.max(...lats)), up(Math.max(...lons))];
+}
+
+function boundsKey(bounds: [number, number, number, number]): string {
+  return bounds.map((v) => v.toFixed(5)).join(",");
+}
+
+/** Whether an earlier query's area covers all of a new one */
+function covers(entry: CachedArea, outline: [number, number][], bounds: [number, number, number, number]): boolean {
+  const [s, w, n, e] = entry.bounds;
+  if (bounds[0] < s || bounds[1] < w || bounds[2] > n || bounds[3] > e) return false;
+  try {
+    // Both outlines are small enough to treat lat/lon as flat
+    const uncovered = subtractPolygons([{ polygon: outline }], [{ polygon: entry.outline }]);
+    const outside = uncovered.reduce((sum, p) => sum + shapeArea(p), 0);
+    return outside <= shapeArea({ polygon: outline }) * UNCOVERED_TOLERANCE;
+  } catch (err) {
+    console.warn("Could not compare cached area, fetching fresh:", err);
+    return false;
+  }
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(AREAS, { keyPath: "key" });
+        request.result.createObjectStore(RESPONSES);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again rather than caching the failure
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+/** Run requests against both stores in one transaction; resolves with the result of the request `run` returns, once it commits */
+async function transact<T>(
+  mode: IDBTransactionMode,
+  run: (areas: IDBObjectStore, responses: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T> {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction([AREAS, RESPONSES], mode);
+    const request = run(tx.objectStore(AREAS), tx.objectStore(RESPONSES));
+    tx.oncomplete = () => resolve(request ? request.result : (undefined as T));
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function isFresh(area: CachedArea): boolean {
+  return area.version === CACHE_VERSION && Date.now() - area.fetchedAt < CACHE_TTL_MS;
+}
+
+/**
+ * The freshest unexpired response covering the selection: one for the
+ * same area, else one for a bigger area around it.
+ */
+export async function getCachedResponse(selection: Selection): Promise<CachedResponse | null> {
+  try {
+    const outline = selectionOutline(selection);
+    const bounds = normalisedBounds(outline);
+    const key = boundsKey(bounds);
+    const areas = await transact<CachedArea[]>("readonly", (a) => a.getAll());
+    const best = areas
+      .filter(isFresh)
+      // The same area first, then the newest
+      .sort((a, b) => Number(b.key === key) - Number(a.key === key) || b.fetchedAt - a.fetchedAt)
+      .find((area) => covers(area, outline, bounds));
+    if (!best) return null;
+    const data = await transact<ArrayBuffer | undefined>("readonly", (_, r) => r.get(best.key));
+    return data ? { data, fetchedAt: best.fetchedAt } : null;
+  } catch (err) {
+    console.warn("OSM cache unavailable:", err);
+    return null;
+  }
+}
+
+/**
+ * Store a response for the selection's area, dropping expired entries
+ * and the oldest beyond MAX_ENTRIES. The buffer is stored as it is, so
+ * pass a copy of one that's transferred to the worker.
+ */
+export async function putCachedResponse(selection: Selection, data: ArrayBuffer, fetchedAt = Date.now()): Promise<void> {
+  const outline = selectionOutline(selection);
+  const bounds = normalisedBounds(outline);
+  const area: CachedArea = { key: boundsKey(bounds), version: CACHE_VERSION, outline, bounds, fetchedAt };
+  try {
+    const areas = await transact<CachedArea[]>("readonly", (a) => a.getAll());
+    const stale = areas
+      .filter((a) => a.key !== area.key)
+      .sort((a, b) => b.fetchedAt - a.fetchedAt)
+      .filter((a, i) => i >= MAX_ENTRIES - 1 || !isFresh(a));
+    await transact("readwrite", (a, r) => {
+      for (const old of stale) {
+        a.delete(old.key);
+        r.delete(old.key);
+      }
+      a.put(area);
+      r.put(data, area.key);
+    });
+  } catch (err) {
+    console.warn("Could not cache OSM data:", err);
+  }
+}
+
+/** Forget every cached response. */
+export async function clearOsmCache(): Promise<void> {
+  await transact("readwrite", (a, r) => {
+    a.clear();
+    r.clear();
+  });
+}
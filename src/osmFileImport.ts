@@ -0,0 +1,479 @@
+import { unzlibSync } from "fflate";
+import type { OsmElement, OsmNode, OsmRelation, OsmWay } from "./osmParser";
+import { queryWants } from "./osmParser";
+
+/*
+ * Local map data files read into the same elements an Overpass response
+ * holds, so parseElements turns them into a scene like any other area:
+ * OSM XML (.osm), OSM PBF (.osm.pbf) and GeoJSON. Runs in the scene
+ * worker, so there's no DOMParser — the readers here are self-contained.
+ */
+
+export type DataFileFormat = "osm" | "pbf" | "geojson";
+
+/** The formats a file picker should offer */
+export const DATA_FILE_EXTENSIONS = ".osm,.xml,.pbf,.geojson,.json";
+
+/** Format of a data file, by its name; null if it isn't one we read */
+export function dataFileFormat(fileName: string): DataFileFormat | null {
+  const name = fileName.toLowerCase();
+  if (name.endsWith(".pbf")) return "pbf";
+  if (name.endsWith(".osm") || name.endsWith(".xml")) return "osm";
+  if (name.endsWith(".geojson") || name.endsWith(".json")) return "geojson";
+  return null;
+}
+
+/**
+ * Drop ways the Overpass query would have left out (tunnels and the
+ * like); a file holds everything mapped in its area.
+ */
+function wanted(elements: OsmElement[]): OsmElement[] {
+  return elements.filter((el) => el.type !== "way" || queryWants(el.tags ?? {}));
+}
+
+/** Read a data file into OSM elements. Throws on malformed or unsupported files. */
+export function readDataFile(data: ArrayBuffer, format: DataFileFormat): OsmElement[] {
+  switch (format) {
+    case "osm":
+      return wanted(readOsmXml(new TextDecoder().decode(data)));
+    case "pbf":
+      return wanted(readOsmPbf(new Uint8Array(data)));
+    case "geojson":
+      return wanted(readGeoJson(JSON.parse(new TextDecoder().decode(data))));
+  }
+}
+
+// ---- OSM XML ----
+
+const XML_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" };
+
+function unescapeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] !== "#") return XML_ENTITIES[entity] ?? match;
+    const code = entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+    return String.fromCodePoint(code);
+  });
+}
+
+function xmlAttributes(text: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const [, name, double, single] of text.matchAll(/([\w:]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attrs[name] = unescapeXml(double ?? single);
+  }
+  return attrs;
+}
+
+/**
+ * OSM XML as written by JOSM, osmium or the API. Only the element
+ * structure matters, so a tag scanner stands in for a full XML parser.
+ */
+function readOsmXml(xml: string): OsmElement[] {
+  const elements: OsmElement[] = [];
+  let current: OsmElement | null = null;
+
+  for (const [, closing, name, attrText, selfClosing] of xml.matchAll(
+    /<(\/?)(node|way|relation|nd|member|tag)\b([^>]*?)(\/?)>/g
+  )) {
+    if (closing) {
+      current = null;
+      continue;
+    }
+    const attrs = xmlAttributes(attrText);
+    // Deleted elements turn up in change files and JOSM saves
+    if (attrs["action"] === "delete" || attrs["visible"] === "false") {
+      if (name === "node" || name === "way" || name === "relation") current = null;
+      continue;
+    }
+    let opened: OsmElement | null = null;
+    if (name === "node") {
+      opened = { type: "node", id: Number(attrs["id"]), lat: Number(attrs["lat"]), lon: Number(attrs["lon"]) };
+    } else if (name === "way") {
+      opened = { type: "way", id: Number(attrs["id"]), nodes: [] };
+    } else if (name === "relation") {
+      opened = { type: "relation", id: Number(attrs["id"]), members: [] };
+    } else if (name === "nd" && current?.type === "way") {
+      current.nodes.push(Number(attrs["ref"]));
+    } else if (name === "member" && current?.type === "relation") {
+      current.members.push({ type: attrs["type"], ref: Number(attrs["ref"]), role: attrs["role"] ?? "" });
+    } else if (name === "tag" && current) {
+      current.tags = { ...current.tags, [attrs["k"]]: attrs["v"] ?? "" };
+    }
+    if (opened) {
+      elements.push(opened);
+      current = selfClosing ? null : opened;
+    }
+  }
+  return elements;
+}
+
+// ---- OSM PBF ----
+
+/** Just enough of a protobuf reader for the OSM PBF messages */
+class ProtoReader {
+  pos = 0;
+
+  constructor(readonly bytes: Uint8Array) {}
+
+  get done(): boolean {
+    return this.pos >= this.bytes.length;
+  }
+
+  /** Unsigned varint; exact up to 2^53, which covers every OSM id and coordinate */
+  varint(): number {
+    let value = 0;
+    let scale = 1;
+    for (;;) {
+      const byte = this.bytes[this.pos++];
+      if (byte === undefined) throw new Error("PBF message ends mid-number");
+      value += (byte & 0x7f) * scale;
+      if (byte < 0x80) return value;
+      scale *= 128;
+    }
+  }
+
+  /**
+   * Plain (not zigzagged) int64: negative values come as ten-byte two's
+   * complement, too big to add up exactly in a double, so they're summed
+   * as a BigInt.
+   */
+  int64(): number {
+    let value = 0n;
+    let shift = 0n;
+    for (;;) {
+      const byte = this.bytes[this.pos++];
+      if (byte === undefined) throw new Error("PBF message ends mid-number");
+      value |= BigInt(byte & 0x7f) << shift;
+      if (byte < 0x80) return Number(BigInt.asIntN(64, value));
+      shift += 7n;
+    }
+  }
+
+  /** Zigzag-encoded signed varint */
+  svarint(): number {
+    const n = this.varint();
+    return n % 2 === 0 ? n / 2 : -(n + 1) / 2;
+  }
+
+  bytesField(): Uint8Array {
+    const length = this.varint();
+    const start = this.pos;
+    this.pos += length;
+    return this.bytes.subarray(start, this.pos);
+  }
+
+  /** Next field as [field number, wire type] */
+  tag(): [number, number] {
+    const key = this.varint();
+    return [Math.floor(key / 8), key % 8];
+  }
+
+  skip(wireType: number) {
+    if (wireType === 0) this.varint();
+    else if (wireType === 1) this.pos += 8;
+    else if (wireType === 2) this.bytesField();
+    else if (wireType === 5) this.pos += 4;
+    else throw new Error(`Unsupported protobuf wire type ${wireType}`);
+  }
+
+  /** A packed repeated varint field (or a single unpacked value) */
+  packed(wireType: number, signed: boolean): number[] {
+    const read = signed ? () => this.svarint() : () => this.varint();
+    if (wireType !== 2) return [read()];
+    const length = this.varint();
+    const end = this.pos + length;
+    const values: number[] = [];
+    while (this.pos < end) values.push(read());
+    return values;
+  }
+}
+
+/** Undo PBF delta coding: each value is stored as the difference from the one before */
+function undelta(values: number[]): number[] {
+  let last = 0;
+  return values.map((v) => (last += v));
+}
+
+function pbfTags(keys: number[], vals: number[], strings: string[]): Record<string, string> | undefined {
+  if (keys.length === 0) return undefined;
+  const tags: Record<string, string> = {};
+  keys.forEach((k, i) => {
+    tags[strings[k]] = strings[vals[i]];
+  });
+  return tags;
+}
+
+/** Decompress one fileblock's Blob message */
+function pbfBlobData(blob: Uint8Array): Uint8Array {
+  const r = new ProtoReader(blob);
+  while (!r.done) {
+    const [field, wire] = r.tag();
+    if (field === 1) return r.bytesField().slice();
+    if (field === 3) return unzlibSync(r.bytesField());
+    if (field === 4 || field === 6 || field === 7) {
+      throw new Error("This PBF uses LZMA, LZ4 or Zstandard compression — re-save it with zlib (e.g. osmium cat)");
+    }
+    r.skip(wire);
+  }
+  throw new Error("Empty PBF block");
+}
+
+interface BlockContext {
+  strings: string[];
+  granularity: number;
+  latOffset: number;
+  lonOffset: number;
+}
+
+function readPbfGroup(group: Uint8Array, ctx: BlockContext, out: OsmElement[]) {
+  const coord = (value: number, offset: number) => (offset + ctx.granularity * value) * 1e-9;
+  const r = new ProtoReader(group);
+  while (!r.done) {
+    const [field, wire] = r.tag();
+    if (field === 1) {
+      // Plain node
+      const m = new ProtoReader(r.bytesField());
+      let id = 0;
+      let lat = 0;
+      let lon = 0;
+      let keys: number[] = [];
+      let vals: number[] = [];
+      while (!m.done) {
+        const [f, w] = m.tag();
+        if (f === 1) id = m.svarint();
+        else if (f === 2) keys = m.packed(w, false);
+        else if (f === 3) vals = m.packed(w, false);
+        else if (f === 8) lat = m.svarint();
+        else if (f === 9) lon = m.svarint();
+        else m.skip(w);
+      }
+      const node: OsmNode = { type: "node", id, lat: coord(lat, ctx.latOffset), lon: coord(lon, ctx.lonOffset) };
+      const tags = pbfTags(keys, vals, ctx.strings);
+      out.push(tags ? { ...node, tags } : node);
+    } else if (field === 2) {
+      // Dense nodes: parallel delta-coded arrays, tags as 0-separated key/value runs
+      const m = new ProtoReader(r.bytesField());
+      let ids: number[] = [];
+      let lats: number[] = [];
+      let lons: number[] = [];
+      let keysVals: number[] = [];
+      while (!m.done) {
+        const [f, w] = m.tag();
+        if (f === 1) ids = undelta(m.packed(w, true));
+        else if (f === 8) lats = undelta(m.packed(w, true));
+        else if (f === 9) lons = undelta(m.packed(w, true));
+        else if (f === 10) keysVals = m.packed(w, false);
+        else m.skip(w);
+      }
+      let kv = 0;
+      ids.forEach((id, i) => {
+        const node: OsmNode = { type: "node", id, lat: coord(lats[i], ctx.latOffset), lon: coord(lons[i], ctx.lonOffset) };
+        const keys: number[] = [];
+        const vals: number[] = [];
+        while (kv < keysVals.length && keysVals[kv] !== 0) {
+          keys.push(keysVals[kv++]);
+          vals.push(keysVals[kv++]);
+        }
+        kv++;
+        const tags = pbfTags(keys, vals, ctx.strings);
+        out.push(tags ? { ...node, tags } : node);
+      });
+    } else if (field === 3) {
+      const m = new ProtoReader(r.bytesField());
+      const way: OsmWay = { type: "way", id: 0, nodes: [] };
+      let keys: number[] = [];
+      let vals: number[] = [];
+      while (!m.done) {
+        const [f, w] = m.tag();
+        if (f === 1) way.id = m.int64();
+        else if (f === 2) keys = m.packed(w, false);
+        else if (f === 3) vals = m.packed(w, false);
+        else if (f === 8) way.nodes = undelta(m.packed(w, true));
+        else m.skip(w);
+      }
+      way.tags = pbfTags(keys, vals, ctx.strings);
+      out.push(way);
+    } else if (field === 4) {
+      const m = new ProtoReader(r.bytesField());
+      const relation: OsmRelation = { type: "relation", id: 0, members: [] };
+      let keys: number[] = [];
+      let vals: number[] = [];
+      let roles: number[] = [];
+      let refs: number[] = [];
+      let types: number[] = [];
+      while (!m.done) {
+        const [f, w] = m.tag();
+        if (f === 1) relation.id = m.int64();
+        else if (f === 2) keys = m.packed(w, false);
+        else if (f === 3) vals = m.packed(w, false);
+        else if (f === 8) roles = m.packed(w, false);
+        else if (f === 9) refs = undelta(m.packed(w, true));
+        else if (f === 10) types = m.packed(w, false);
+        else m.skip(w);
+      }
+      relation.tags = pbfTags(keys, vals, ctx.strings);
+      relation.members = refs.map((ref, i) => ({
+        type: ["node", "way", "relation"][types[i]] ?? "node",
+        ref,
+        role: ctx.strings[roles[i]] ?? "",
+      }));
+      out.push(relation);
+    } else {
+      r.skip(wire);
+    }
+  }
+}
+
+function readPbfBlock(block: Uint8Array, out: OsmElement[]) {
+  const r = new ProtoReader(block);
+  const ctx: BlockContext = { strings: [], granularity: 100, latOffset: 0, lonOffset: 0 };
+  const groups: Uint8Array[] = [];
+  const decoder = new TextDecoder();
+  while (!r.done) {
+    const [field, wire] = r.tag();
+    if (field === 1) {
+      const table = new ProtoReader(r.bytesField());
+      while (!table.done) {
+        const [f, w] = table.tag();
+        if (f === 1) ctx.strings.push(decoder.decode(table.bytesField()));
+        else table.skip(w);
+      }
+    } else if (field === 2) groups.push(r.bytesField());
+    else if (field === 17) ctx.granularity = r.varint();
+    else if (field === 19) ctx.latOffset = r.int64();
+    else if (field === 20) ctx.lonOffset = r.int64();
+    else r.skip(wire);
+  }
+  // The string table and offsets can come after the groups that use them
+  for (const group of groups) readPbfGroup(group, ctx, out);
+}
+
+/** OSM PBF: a run of length-prefixed BlobHeader + Blob pairs, each holding a zlib'd block */
+function readOsmPbf(bytes: Uint8Array): OsmElement[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const elements: OsmElement[] = [];
+  let pos = 0;
+  while (pos < bytes.length) {
+    const headerLength = view.getInt32(pos);
+    pos += 4;
+    const header = new ProtoReader(bytes.subarray(pos, pos + headerLength));
+    pos += headerLength;
+    let type = "";
+    let dataSize = 0;
+    while (!header.done) {
+      const [f, w] = header.tag();
+      if (f === 1) type = new TextDecoder().decode(header.bytesField());
+      else if (f === 3) dataSize = header.varint();
+      else header.skip(w);
+    }
+    const blob = bytes.subarray(pos, pos + dataSize);
+    pos += dataSize;
+    if (type === "OSMData") readPbfBlock(pbfBlobData(blob), elements);
+  }
+  return elements;
+}
+
+// ---- GeoJSON ----
+
+type Position = number[];
+
+interface GeoJsonGeometry {
+  type: string;
+  coordinates?: unknown;
+  geometries?: GeoJsonGeometry[];
+}
+
+interface GeoJsonFeature {
+  type: string;
+  geometry: GeoJsonGeometry | null;
+  properties?: Record<string, unknown> | null;
+}
+
+/**
+ * Feature properties as OSM tags. Exports from Overpass Turbo or
+ * osmtogeojson keep the tags as-is (or under `tags`); anything else
+ * needs properties named like OSM tags (building=yes, height=…) to show.
+ */
+function featureTags(properties: GeoJsonFeature["properties"]): Record<string, string> {
+  const tags: Record<string, string> = {};
+  const add = (source: Record<string, unknown>) => {
+    for (const [k, v] of Object.entries(source)) {
+      if (v !== null && typeof v !== "object") tags[k] = String(v);
+    }
+  };
+  if (properties) {
+    add(properties);
+    if (properties["tags"] && typeof properties["tags"] === "object") add(properties["tags"] as Record<string, unknown>);
+  }
+  return tags;
+}
+
+/**
+ * GeoJSON features as OSM elements with made-up negative ids: points
+ * become nodes, lines ways, and polygons closed ways — or multipolygon
+ * relations when they have holes or several parts.
+ */
+function readGeoJson(json: GeoJsonFeature & { features?: GeoJsonFeature[] }): OsmElement[] {
+  const elements: OsmElement[] = [];
+  let nextId = -1;
+
+  const node = ([lon, lat]: Position, tags?: Record<string, string>): number => {
+    const id = nextId--;
+    elements.push({ type: "node", id, lat, lon, ...(tags && { tags }) });
+    return id;
+  };
+  const way = (line: Position[], closed: boolean, tags?: Record<string, string>): OsmWay => {
+    // GeoJSON rings repeat their first position; OSM closes a way by repeating the node
+    const points = closed ? line.slice(0, -1) : line;
+    const nodes = points.map((p) => node(p));
+    const w: OsmWay = { type: "way", id: nextId--, nodes: closed ? [...nodes, nodes[0]] : nodes, ...(tags && { tags }) };
+    elements.push(w);
+    return w;
+  };
+  const polygons = (parts: Position[][][], tags: Record<string, string>) => {
+    if (parts.length === 1 && parts[0].length === 1) {
+      way(parts[0][0], true, tags);
+      return;
+    }
+    const members = parts.flatMap((rings) =>
+      rings.map((ring, i) => ({ type: "way", ref: way(ring, true).id, role: i === 0 ? "outer" : "inner" }))
+    );
+    elements.push({ type: "relation", id: nextId--, members, tags: { ...tags, type: "multipolygon" } });
+  };
+  const geometry = (g: GeoJsonGeometry | null, tags: Record<string, string>) => {
+    if (!g) return;
+    const coords = g.coordinates;
+    switch (g.type) {
+      case "Point":
+        node(coords as Position, tags);
+        break;
+      case "MultiPoint":
+        for (const p of coords as Position[]) node(p, tags);
+        break;
+      case "LineString":
+        way(coords as Position[], false, tags);
+        break;
+      case "MultiLineString":
+        for (const line of coords as Position[][]) way(line, false, tags);
+        break;
+      case "Polygon":
+        polygons([coords as Position[][]], tags);
+        break;
+      case "MultiPolygon":
+        polygons(coords as Position[][][], tags);
+        break;
+      case "GeometryCollection":
+        for (const part of g.geometries ?? []) geometry(part, tags);
+        break;
+    }
+  };
+
+  if (json.type === "FeatureCollection") {
+    for (const feature of json.features ?? []) geometry(feature.geometry, featureTags(feature.properties));
+  } else if (json.type === "Feature") {
+    geometry(json.geometry, featureTags(json.properties));
+  } else {
+    // A bare geometry has no properties to say what it is
+    throw new Error("Expected a GeoJSON Feature or FeatureCollection");
+  }
+  return elements;
+}
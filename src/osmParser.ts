@@ -0,0 +1,1088 @@
+import type {
+  BuildingData,
+  Point2D,
+  Polygon,
+  PolygonWithHoles,
+  RoadData,
+  SceneData,
+  Selection,
+} from "./types";
+import {
+  buildingShape,
+  capTreeDensity,
+  clipPolygon,
+  intersectPolygons,
+  pointInPolygon,
+  pointsAlong,
+  seededRandom,
+  TREE_ROW_SPACING_M,
+  treeData,
+  unionWherePossible,
+  classifyRoad,
+  computeScale,
+  projectPolygon,
+  projectRoad,
+  HEIGHT_CURVE_KNEE_MM,
+  MAX_HEIGHT_EXAGGERATION,
+  MIN_FOOTPRINT_MM2,
+  ringArea,
+  selectionOutline,
+  shapeArea,
+  simplifyRing,
+  unionPolygons,
+} from "./geometryUtils";
+
+/*
+ * Overpass queries and the OSM JSON → SceneData parser. Kept free of
+ * React and the DOM so it runs in the scene worker (sceneWorker.ts).
+ */
+
+/**
+ * Outline detail finer than this is dropped (model mm). Fixed on the
+ * print rather than the ground, so the bigger the area the coarser the
+ * real-world detail that goes — a nozzle can't draw it either way.
+ */
+const SIMPLIFY_TOLERANCE_MM = 0.05;
+
+/**
+ * Neighbours merge into one footprint when all their printed heights
+ * stay within about a print layer of each other (model mm)
+ */
+const MERGE_HEIGHT_TOLERANCE_MM = 0.2;
+
+/** Tag values that make up the green space layer, as Overpass regex alternations */
+const GREEN_LEISURE = "park|garden|pitch|golf_course|playground|recreation_ground|nature_reserve";
+const GREEN_LANDUSE = "grass|forest|cemetery|meadow|recreation_ground|village_green|allotments";
+const GREEN_NATURAL = "wood|scrub|grassland|heath";
+
+const GREEN_TAGS: [string, RegExp][] = [
+  ["leisure", new RegExp(`^(${GREEN_LEISURE})$`)],
+  ["landuse", new RegExp(`^(${GREEN_LANDUSE})$`)],
+  ["natural", new RegExp(`^(${GREEN_NATURAL})$`)],
+];
+
+/** Railway types modelled as tracks; the rest (abandoned, platforms…) are left out */
+const RAIL_TYPES = "rail|light_rail|subway|tram|narrow_gauge|monorail";
+
+/**
+ * Build an Overpass QL query that fetches buildings, water, roads and
+ * the other model features within the selection frame.
+ *
+ * The frame goes in as a polygon filter on its four corners (or on the
+ * outline of a shaped selection) rather than a bbox, so a rotated
+ * selection doesn't fetch the corners of its bounding box that the
+ * model would only clip away again. The polygon is sent once, to
+ * collect everything inside it into a set the feature statements then
+ * filter — a boundary outline repeated per statement would make a
+ * query of tens of kilobytes.
+ */
+export function overpassQuery(selection: Selection): string {
+  const corners = selectionOutline(selection).map(([lat, lon]) => `${lat.toFixed(7)} ${lon.toFixed(7)}`);
+  const frame = `poly:"${corners.join(" ")}"`;
+  return `
+[out:json][timeout:30];
+nwr(${frame})->.frame;
+(
+  way.frame["building"];
+  relation.frame["building"];
+  way.frame["building:part"];
+  relation.frame["building:part"];
+  way.frame["natural"="water"];
+  way.frame["landuse"="reservoir"];
+  relation.frame["natural"="water"];
+  relation.frame["landuse"="reservoir"];
+  way.frame["natural"="bay"];
+  relation.frame["natural"="bay"];
+  way.frame["natural"="coastline"];
+  way.frame["leisure"~"^(${GREEN_LEISURE})$"];
+  relation.frame["leisure"~"^(${GREEN_LEISURE})$"];
+  way.frame["landuse"~"^(${GREEN_LANDUSE})$"];
+  relation.frame["landuse"~"^(${GREEN_LANDUSE})$"];
+  way.frame["natural"~"^(${GREEN_NATURAL})$"];
+  relation.frame["natural"~"^(${GREEN_NATURAL})$"];
+  node.frame["natural"="tree"];
+  way.frame["natural"="tree_row"];
+  way.frame["highway"]["tunnel"!="yes"]["tunnel"!="building_passage"]["covered"!="yes"];
+  way.frame["railway"~"^(${RAIL_TYPES})$"]["tunnel"!="yes"];
+);
+out body;
+>;
+out skel qt;
+`.trim();
+}
+
+/**
+ * Whether overpassQuery would fetch a way with these tags, for data that
+ * didn't come through it (imported files): tunnels and covered roads
+ * aren't modelled, nor are railways other than RAIL_TYPES. Keep in step
+ * with the highway and railway lines of the query.
+ */
+export function queryWants(tags: Record<string, string>): boolean {
+  if (tags["building"] || tags["building:part"]) return true;
+  if (tags["highway"]) {
+    return tags["tunnel"] !== "yes" && tags["tunnel"] !== "building_passage" && tags["covered"] !== "yes";
+  }
+  if (tags["railway"]) {
+    return new RegExp(`^(${RAIL_TYPES})$`).test(tags["railway"]) && tags["tunnel"] !== "yes";
+  }
+  return true;
+}
+
+/** Overpass JSON element types we care about */
+export interface OsmNode {
+  type: "node";
+  id: number;
+  lat: number;
+  lon: number;
+  tags?: Record<string, string>;
+}
+
+export interface OsmWay {
+  type: "way";
+  id: number;
+  nodes: number[];
+  tags?: Record<string, string>;
+}
+
+export interface OsmRelation {
+  type: "relation";
+  id: number;
+  members: { type: string; ref: number; role: string }[];
+  tags?: Record<string, string>;
+}
+
+export type OsmElement = OsmNode | OsmWay | OsmRelation;
+
+/**
+ * Resolve a way's node refs into lat/lon coordinate pairs using a
+ * pre-built node lookup map.
+ */
+function resolveWayCoords(
+  nodeIds: number[],
+  nodeMap: Map<number, [number, number]>
+): [number, number][] | null {
+  const coords: [number, number][] = [];
+  for (const nid of nodeIds) {
+    const c = nodeMap.get(nid);
+    if (!c) return null; // incomplete way
+    coords.push(c);
+  }
+  return coords;
+}
+
+/**
+ * Assemble multiple open way segments into closed rings by chaining
+ * them via shared endpoint node IDs.
+ *
+ * In OSM multipolygon relations, the outer boundary of a feature like
+ * a river is split across many small ways. Each individual way is open,
+ * but they connect end-to-end (sharing node IDs) to form a closed ring.
+ * This function reconstructs those rings.
+ */
+function assembleRings(
+  memberWays: OsmWay[],
+  nodeMap: Map<number, [number, number]>
+): [number, number][][] {
+  const rings: [number, number][][] = [];
+
+  // Work with node-ID sequences so matching is exact (not float comparison)
+  const remaining = memberWays.map((w) => [...w.nodes]);
+
+  while (remaining.length > 0) {
+    let chain = remaining.shift()!;
+    let changed = true;
+
+    // Keep extending the chain until it closes or we run out of matches
+    while (changed && chain[0] !== chain[chain.length - 1]) {
+      changed = false;
+      const tail = chain[chain.length - 1];
+
+      for (let i = 0; i < remaining.length; i++) {
+        const seg = remaining[i];
+        if (tail === seg[0]) {
+          // Append segment forward (skip duplicate junction node)
+          chain = chain.concat(seg.slice(1));
+          remaining.splice(i, 1);
+          changed = true;
+          break;
+        } else if (tail === seg[seg.length - 1]) {
+          // Append segment reversed
+          chain = chain.concat(seg.slice().reverse().slice(1));
+          remaining.splice(i, 1);
+          changed = true;
+          break;
+        }
+      }
+    }
+
+    // Resolve node IDs to coordinates
+    const coords: [number, number][] = [];
+    let valid = true;
+    for (const nid of chain) {
+      const c = nodeMap.get(nid);
+      if (!c) {
+        valid = false;
+        break;
+      }
+      coords.push(c);
+    }
+
+    if (valid && coords.length >= 3) {
+      rings.push(coords);
+    }
+  }
+
+  return rings;
+}
+
+/**
+ * Clip a model-space line segment against the frame box, returning
+ * the intersection point where the segment exits/enters the box.
+ */
+function segmentBoxIntersection(
+  ax: number, ay: number, bx: number, by: number,
+  minX: number, minY: number, maxX: number, maxY: number
+): [number, number] | null {
+  // Check all four edges and return the closest intersection to point a
+  const edges: { t: number; pt: [number, number] }[] = [];
+
+  // Left edge (x = minX)
+  if (bx !== ax) {
+    const t = (minX - ax) / (bx - ax);
+    if (t >= 0 && t <= 1) {
+      const iy = ay + t * (by - ay);
+      if (iy >= minY && iy <= maxY) edges.push({ t, pt: [minX, iy] });
+    }
+  }
+  // Right edge (x = maxX)
+  if (bx !== ax) {
+    const t = (maxX - ax) / (bx - ax);
+    if (t >= 0 && t <= 1) {
+      const iy = ay + t * (by - ay);
+      if (iy >= minY && iy <= maxY) edges.push({ t, pt: [maxX, iy] });
+    }
+  }
+  // Bottom edge (y = minY)
+  if (by !== ay) {
+    const t = (minY - ay) / (by - ay);
+    if (t >= 0 && t <= 1) {
+      const ix = ax + t * (bx - ax);
+      if (ix >= minX && ix <= maxX) edges.push({ t, pt: [ix, minY] });
+    }
+  }
+  // Top edge (y = maxY)
+  if (by !== ay) {
+    const t = (maxY - ay) / (by - ay);
+    if (t >= 0 && t <= 1) {
+      const ix = ax + t * (bx - ax);
+      if (ix >= minX && ix <= maxX) edges.push({ t, pt: [ix, maxY] });
+    }
+  }
+
+  if (edges.length === 0) return null;
+  edges.sort((a, b) => a.t - b.t);
+  return edges[0].pt;
+}
+
+/**
+ * Returns the angle (0-4 scale, one per side) of a point on the bounding box
+ * perimeter, going clockwise from the top-left corner.
+ * This is used to walk the box boundary clockwise when closing coastline gaps.
+ *
+ * Convention for clockwise traversal (geographic coords where Y increases northward):
+ *   Top (maxY):    left→right  = 0..1
+ *   Right (maxX):  top→bottom  = 1..2
+ *   Bottom (minY): right→left  = 2..3
+ *   Left (minX):   bottom→top  = 3..4
+ */
+function boxAngle(
+  x: number, y: number,
+  minX: number, minY: number, maxX: number, maxY: number
+): number {
+  const eps = 1e-9;
+  const w = maxX - minX;
+  const h = maxY - minY;
+
+  // Top edge (y ≈ maxY)
+  if (Math.abs(y - maxY) < eps) return (x - minX) / w;
+  // Right edge (x ≈ maxX)
+  if (Math.abs(x - maxX) < eps) return 1 + (maxY - y) / h;
+  // Bottom edge (y ≈ minY)
+  if (Math.abs(y - minY) < eps) return 2 + (maxX - x) / w;
+  // Left edge (x ≈ minX)
+  if (Math.abs(x - minX) < eps) return 3 + (y - minY) / h;
+
+  return 0;
+}
+
+/**
+ * Generate the clockwise box-corner waypoints between two angles.
+ */
+function boxCornersBetween(
+  startAngle: number, endAngle: number,
+  minX: number, minY: number, maxX: number, maxY: number
+): [number, number][] {
+  const corners: [number, number][] = [
+    [maxX, maxY], // angle 1: top-right
+    [maxX, minY], // angle 2: bottom-right
+    [minX, minY], // angle 3: bottom-left
+    [minX, maxY], // angle 4: top-left (= 0 when wrapped)
+  ];
+  const cornerAngles = [1, 2, 3, 4];
+
+  const result: [number, number][] = [];
+  let a = startAngle;
+  // Walk clockwise: if end < start, we wrap around
+  let target = endAngle <= a ? endAngle + 4 : endAngle;
+
+  for (let i = 0; i < 4; i++) {
+    let ca = cornerAngles[i];
+    if (ca <= a) ca += 4;
+    if (ca > a && ca < target) {
+      result.push(corners[i]);
+    }
+  }
+  return result;
+}
+
+/**
+ * Build sea polygons, in model mm, from coastline ways.
+ *
+ * OSM coastline convention: land is to the LEFT, sea is to the RIGHT.
+ * The coastline ways trace the land-sea boundary. To form sea polygons
+ * within the selection frame:
+ * 1. Chain coastline segments together
+ * 2. Project them into model space and clip them to the frame
+ * 3. Close each chain by walking clockwise around the frame boundary
+ *    (since sea is to the right of the coastline direction)
+ */
+function buildSeaPolygons(
+  coastlineWays: OsmWay[],
+  nodeMap: Map<number, [number, number]>,
+  selection: Selection,
+  scaleMMperM: number
+): Polygon[] {
+  if (coastlineWays.length === 0) return [];
+
+  // The frame in model space: rotated with the selection, so the clip
+  // box is axis-aligned here whatever the map bearing
+  const { modelWidthMm, modelDepthMm } = computeScale(selection);
+  const [minX, minY, maxX, maxY] = [-modelWidthMm / 2, -modelDepthMm / 2, modelWidthMm / 2, modelDepthMm / 2];
+
+  // 1. Chain coastline segments by matching endpoints.
+  //    IMPORTANT: Only join in the forward direction (tail→head or
+  //    their-tail→our-head). Never reverse a segment — coastline
+  //    direction encodes which side is land vs sea.
+  const remaining = coastlineWays.map((w) => [...w.nodes]);
+  const chains: number[][] = [];
+
+  while (remaining.length > 0) {
+    let chain = remaining.shift()!;
+    let changed = true;
+
+    while (changed) {
+      changed = false;
+      const head = chain[0];
+      const tail = chain[chain.length - 1];
+
+      for (let i = 0; i < remaining.length; i++) {
+        const seg = remaining[i];
+        if (tail === seg[0]) {
+          // Our tail → their head: append forward
+          chain = chain.concat(seg.slice(1));
+          remaining.splice(i, 1);
+          changed = true;
+          break;
+        } else if (head === seg[seg.length - 1]) {
+          // Their tail → our head: prepend forward
+          chain = seg.concat(chain.slice(1));
+          remaining.splice(i, 1);
+          changed = true;
+          break;
+        }
+      }
+    }
+
+    chains.push(chain);
+  }
+
+  // 2. Resolve chains to model coordinates and clip to the frame
+  const seaPolygons: Polygon[] = [];
+
+  for (const chain of chains) {
+    const latLons = resolveWayCoords(chain, nodeMap);
+    if (!latLons || latLons.length < 2) continue;
+    const coords = projectPolygon(latLons, selection, scaleMMperM, false);
+
+    // Check if the chain is already a closed ring
+    const isClosed = chain[0] === chain[chain.length - 1];
+
+    if (isClosed) {
+      // Closed coastline ring (e.g. an island) — the interior
+      // is land, so the sea is the exterior. We skip these for now
+      // as they'd need hole-subtraction which is complex.
+      // However, if the ring goes clockwise, the interior is sea
+      // (e.g. an enclosed bay).
+      // For simplicity, just add it as a water polygon.
+      // Check winding: if clockwise, interior is sea
+      let area = 0;
+      for (let i = 0; i < coords.length - 1; i++) {
+        area += (coords[i + 1][0] - coords[i][0]) * (coords[i + 1][1] + coords[i][1]);
+      }
+      // area > 0 means clockwise = sea inside
+      if (area > 0) {
+        seaPolygons.push(clipPolygon(coords, minX, minY, maxX, maxY));
+      }
+      continue;
+    }
+
+    // 3. Split the chain into segments that cross the frame.
+    //    A single chain may enter and exit multiple times, producing
+    //    multiple independent sea polygons. Each segment has an entry
+    //    and exit point on the frame boundary.
+    type Segment = {
+      points: Point2D[];
+      entry: Point2D;
+      exit: Point2D;
+    };
+    const segments: Segment[] = [];
+    let curPoints: Point2D[] = [];
+    let curEntry: Point2D | null = null;
+    const isInside = ([x, y]: Point2D) => x >= minX && x <= maxX && y >= minY && y <= maxY;
+
+    for (let i = 0; i < coords.length; i++) {
+      const [x, y] = coords[i];
+      const inside = isInside(coords[i]);
+
+      if (i > 0) {
+        const [px, py] = coords[i - 1];
+        const pInside = isInside(coords[i - 1]);
+
+        if (!pInside && inside) {
+          // Entering the frame — start a new segment
+          const inter = segmentBoxIntersection(px, py, x, y, minX, minY, maxX, maxY);
+          if (inter) {
+            curEntry = inter;
+            curPoints = [curEntry];
+          } else {
+            curEntry = [x, y];
+            curPoints = [];
+          }
+        } else if (pInside && !inside) {
+          // Exiting the frame — finalize current segment
+          const inter = segmentBoxIntersection(px, py, x, y, minX, minY, maxX, maxY);
+          if (inter && curEntry) {
+            curPoints.push(inter);
+            if (curPoints.length >= 2) {
+              segments.push({ points: [...curPoints], entry: curEntry, exit: inter });
+            }
+          }
+          curPoints = [];
+          curEntry = null;
+        }
+      }
+
+      if (inside) {
+        curPoints.push([x, y]);
+      }
+    }
+    // Note: if the chain ends inside the frame (no final exit), we
+    // discard that trailing segment since we can't close it properly
+    // without a boundary exit point.
+
+    // 4. For each segment with entry/exit on the boundary, close
+    //    by walking clockwise around the frame from exit back to entry.
+    //    (Sea is to the RIGHT of coastline direction = clockwise.)
+    for (const seg of segments) {
+      const exitAngle = boxAngle(seg.exit[0], seg.exit[1], minX, minY, maxX, maxY);
+      const entryAngle = boxAngle(seg.entry[0], seg.entry[1], minX, minY, maxX, maxY);
+      const corners = boxCornersBetween(exitAngle, entryAngle, minX, minY, maxX, maxY);
+
+      const seaPoly: Polygon = [...seg.points, ...corners];
+      if (seaPoly.length >= 3) {
+        seaPolygons.push(seaPoly);
+      }
+    }
+  }
+
+  return seaPolygons;
+}
+
+/**
+ * Generate a small procedural mock dataset when Overpass is
+ * unavailable or returns nothing. This lets the 3D preview still
+ * show something useful during development or outages.
+ */
+export function mockSceneData(selection: Selection): SceneData {
+  const { scaleMMperM, modelWidthMm, modelDepthMm } = computeScale(selection);
+  const buildings = [];
+  const water = [];
+
+  // Create a grid of small buildings
+  const cols = 5;
+  const rows = 5;
+  const bw = modelWidthMm * 0.08;
+  const bd = modelDepthMm * 0.08;
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const cx = -modelWidthMm / 2 + ((c + 1) / (cols + 1)) * modelWidthMm;
+      const cy = -modelDepthMm / 2 + ((r + 1) / (rows + 1)) * modelDepthMm;
+      const h = 2 + seededRandom(r * cols + c) * 8;
+      buildings.push({
+        polygon: [
+          [cx - bw, cy - bd],
+          [cx + bw, cy - bd],
+          [cx + bw, cy + bd],
+          [cx - bw, cy + bd],
+        ] as [number, number][],
+        heightMm: h,
+      });
+    }
+  }
+
+  // One water body in the middle
+  const ww = modelWidthMm * 0.25;
+  const wd = modelDepthMm * 0.12;
+  water.push({
+    polygon: [
+      [-ww, -wd],
+      [ww, -wd],
+      [ww, wd],
+      [-ww, wd],
+    ] as [number, number][],
+  });
+
+  // Add some mock roads (a cross pattern)
+  const roads: SceneData["roads"] = [];
+  const roadHalfW = modelWidthMm * 0.015;
+  // Horizontal road
+  roads.push({
+    polygon: [
+      [-modelWidthMm / 2, -roadHalfW],
+      [modelWidthMm / 2, -roadHalfW],
+      [modelWidthMm / 2, roadHalfW],
+      [-modelWidthMm / 2, roadHalfW],
+    ] as [number, number][],
+    kind: "major",
+  });
+  // Vertical road
+  roads.push({
+    polygon: [
+      [-roadHalfW, -modelDepthMm / 2],
+      [roadHalfW, -modelDepthMm / 2],
+      [roadHalfW, modelDepthMm / 2],
+      [-roadHalfW, modelDepthMm / 2],
+    ] as [number, number][],
+    kind: "major",
+  });
+  // Diagonal railway
+  const railHalfW = modelWidthMm * 0.008;
+  roads.push({
+    polygon: [
+      [-modelWidthMm / 2, -modelDepthMm / 3 - railHalfW],
+      [modelWidthMm / 2, modelDepthMm / 3 - railHalfW],
+      [modelWidthMm / 2, modelDepthMm / 3 + railHalfW],
+      [-modelWidthMm / 2, -modelDepthMm / 3 + railHalfW],
+    ] as [number, number][],
+    kind: "railway",
+  });
+
+  return clipToOutline(
+    { buildings, water, roads, greenery: [], trees: [], modelWidthMm, modelDepthMm },
+    selection,
+    scaleMMperM
+  );
+}
+
+/** Average of a ring's vertices — a cheap interior point for compact shapes */
+function vertexMean(ring: Polygon): Point2D {
+  let x = 0;
+  let y = 0;
+  for (const [px, py] of ring) {
+    x += px;
+    y += py;
+  }
+  return [x / ring.length, y / ring.length];
+}
+
+/**
+ * Project a shaped selection's outline into model space as a single
+ * counter-clockwise ring. A freehand outline that crosses itself is
+ * untangled, keeping its largest piece.
+ */
+function modelOutline(selection: Selection, scaleMMperM: number): Polygon | null {
+  if (!selection.outline || selection.outline.length < 3) return null;
+  let ring = projectPolygon(selection.outline, selection, scaleMMperM, false);
+  try {
+    const pieces = unionPolygons([{ polygon: ring }]).map((p) => p.polygon);
+    ring = pieces.reduce((a, b) => (Math.abs(ringArea(b)) > Math.abs(ringArea(a)) ? b : a), ring);
+  } catch (err) {
+    console.warn("Could not untangle the selection outline, using it as drawn:", err);
+  }
+  if (ring.length < 3) return null;
+  return ringArea(ring) > 0 ? ring : [...ring].reverse();
+}
+
+/**
+ * Cut shapes down to the outline. Shapes whose vertices are all inside
+ * and whose bounding box holds none of the outline's corners are kept
+ * as they are, which spares the polygon boolean for almost all of them.
+ */
+function clipShapes<T extends PolygonWithHoles>(shapes: T[], outline: Polygon): T[] {
+  return shapes.flatMap((shape) => {
+    const xs = shape.polygon.map(([x]) => x);
+    const ys = shape.polygon.map(([, y]) => y);
+    const [minX, maxX, minY, maxY] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+    if (
+      shape.polygon.every((p) => pointInPolygon(p, outline)) &&
+      !outline.some(([x, y]) => x >= minX && x <= maxX && y >= minY && y <= maxY)
+    ) {
+      return [shape];
+    }
+    try {
+      return intersectPolygons([shape], [{ polygon: outline }]).map((piece) => ({ ...shape, ...piece }));
+    } catch (err) {
+      // Keep or drop the whole shape rather than lose the model
+      console.warn("Clipping to the selection outline failed:", err);
+      return pointInPolygon(vertexMean(shape.polygon), outline) ? [shape] : [];
+    }
+  });
+}
+
+/**
+ * Trim a scene to a shaped selection: every feature is clipped to the
+ * outline, and trees are kept only where the whole crown sits inside it.
+ * Rectangular selections pass through unchanged.
+ */
+function clipToOutline(scene: SceneData, selection: Selection, scaleMMperM: number): SceneData {
+  const outline = modelOutline(selection, scaleMMperM);
+  if (!outline) return scene;
+  return {
+    ...scene,
+    buildings: clipShapes(scene.buildings, outline),
+    water: clipShapes(scene.water, outline),
+    roads: clipShapes(scene.roads, outline),
+    greenery: clipShapes(scene.greenery, outline),
+    trees: scene.trees.filter(({ position: [x, y], crownRadiusMm: r }) =>
+      ([[x, y], [x - r, y], [x + r, y], [x, y - r], [x, y + r]] as Point2D[]).every((p) =>
+        pointInPolygon(p, outline)
+      )
+    ),
+    outline,
+  };
+}
+
+/**
+ * Union the strips of each road kind into one clean network, so
+ * junctions are single shapes rather than overlapping ends. Bridges are
+ * left as they are — each deck is raised along its own centreline.
+ */
+function mergeRoadNetwork(roads: RoadData[]): RoadData[] {
+  const merged: RoadData[] = roads.filter((r) => r.bridge);
+  for (const kind of ["major", "minor", "path", "railway"] as const) {
+    const strips = roads.filter((r) => r.kind === kind && !r.bridge);
+    merged.push(...unionWherePossible(strips).map((shape) => ({ ...shape, kind })));
+  }
+  return merged;
+}
+
+/**
+ * Merge footprints that share a wall — terraces, blocks mapped house by
+ * house — where nothing would tell them apart in print: flat roofs,
+ * standing on the ground and within a layer of each other's height.
+ * Mapped neighbours share their corner nodes, so shared walls are found
+ * as exactly matching edges rather than with polygon tests.
+ *
+ * Heights here are true to scale, before mapBuildingHeights, so the
+ * tolerance is divided by the most the product page can exaggerate, and
+ * buildings that could reach the compressing curves aren't merged. A
+ * group grows only while its whole height range fits the tolerance, so
+ * a stepped terrace doesn't chain into one averaged block.
+ */
+function mergeTouchingBuildings(buildings: BuildingData[]): BuildingData[] {
+  const tolerance = MERGE_HEIGHT_TOLERANCE_MM / MAX_HEIGHT_EXAGGERATION;
+  const mergeable = (b: BuildingData) =>
+    !b.roof && !b.minHeightMm && b.heightMm * MAX_HEIGHT_EXAGGERATION <= HEIGHT_CURVE_KNEE_MM;
+
+  // Neighbours across each shared wall
+  const neighbours = buildings.map((): number[] => []);
+  const edges = new Map<string, number>();
+  buildings.forEach((b, i) => {
+    if (!mergeable(b)) return;
+    const keys = b.polygon.map(([x, y]) => `${x},${y}`);
+    keys.forEach((a, k) => {
+      const c = keys[(k + 1) % keys.length];
+      const edge = a < c ? `${a}|${c}` : `${c}|${a}`;
+      const j = edges.get(edge);
+      if (j === undefined) {
+        edges.set(edge, i);
+      } else if (j !== i) {
+        neighbours[i].push(j);
+        neighbours[j].push(i);
+      }
+    });
+  });
+
+  // Grow each group out from its first building while the height range allows
+  const grouped = new Uint8Array(buildings.length);
+  const groups: BuildingData[][] = [];
+  buildings.forEach((seed, i) => {
+    if (grouped[i]) return;
+    grouped[i] = 1;
+    const group = [seed];
+    let low = seed.heightMm;
+    let high = seed.heightMm;
+    const queue = [i];
+    while (queue.length > 0) {
+      for (const j of neighbours[queue.pop()!]) {
+        const h = buildings[j].heightMm;
+        if (grouped[j] || Math.max(high, h) - Math.min(low, h) >= tolerance) continue;
+        grouped[j] = 1;
+        low = Math.min(low, h);
+        high = Math.max(high, h);
+        group.push(buildings[j]);
+        queue.push(j);
+      }
+    }
+    groups.push(group);
+  });
+
+  const merged: BuildingData[] = [];
+  for (const group of groups) {
+    if (group.length === 1) {
+      merged.push(group[0]);
+      continue;
+    }
+    try {
+      const pieces = unionPolygons(group);
+      // Anything but one footprint means they didn't really touch
+      if (pieces.length !== 1) throw new Error(`merged into ${pieces.length} pieces`);
+      const areas = group.map((b) => shapeArea(b));
+      const total = areas.reduce((a, b) => a + b, 0);
+      merged.push({
+        ...pieces[0],
+        heightMm: group.reduce((sum, b, k) => sum + b.heightMm * areas[k], 0) / total,
+        count: group.reduce((sum, b) => sum + (b.count ?? 1), 0),
+      });
+    } catch (err) {
+      console.warn(`Could not merge ${group.length} touching buildings, keeping them apart:`, err);
+      merged.push(...group);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Strip out detail a printer can't reproduce: touching buildings are
+ * merged, every outline simplified to the print tolerance, and features
+ * (or holes) too small to print dropped.
+ */
+function simplifyScene(scene: SceneData): SceneData {
+  const simplify = <T extends PolygonWithHoles>(shapes: T[]): T[] =>
+    shapes
+      .map((shape) => {
+        const holes = shape.holes
+          ?.map((h) => simplifyRing(h, SIMPLIFY_TOLERANCE_MM))
+          .filter((h) => Math.abs(ringArea(h)) >= MIN_FOOTPRINT_MM2);
+        return {
+          ...shape,
+          polygon: simplifyRing(shape.polygon, SIMPLIFY_TOLERANCE_MM),
+          holes: holes?.length ? holes : undefined,
+        };
+      })
+      .filter((shape) => shapeArea(shape) >= MIN_FOOTPRINT_MM2);
+
+  return {
+    ...scene,
+    buildings: simplify(mergeTouchingBuildings(scene.buildings)),
+    water: simplify(scene.water),
+    roads: simplify(scene.roads),
+    greenery: simplify(scene.greenery),
+  };
+}
+
+/** Steps of turning an Overpass response into a scene, in the order they run */
+export type ParseStage = "reading" | "features" | "coastline" | "cleanup";
+
+/**
+ * Told as each stage of a parse starts. Awaited, so the caller can let
+ * other work through in between — or throw to abandon the parse.
+ */
+export type StageCallback = (stage: ParseStage) => void | Promise<void>;
+
+/**
+ * Parse raw OSM elements into SceneData geometry.
+ * Returns null when the response has no usable features.
+ */
+export async function parseElements(
+  elements: OsmElement[],
+  selection: Selection,
+  onStage: StageCallback = () => {}
+): Promise<SceneData | null> {
+  const nodeMap = new Map<number, [number, number]>();
+  const ways = new Map<number, OsmWay>();
+  const relations: OsmRelation[] = [];
+  const treeNodes: OsmNode[] = [];
+
+  for (const el of elements) {
+    if (el.type === "node") {
+      nodeMap.set(el.id, [el.lat, el.lon]);
+      if (el.tags?.["natural"] === "tree") treeNodes.push(el);
+    } else if (el.type === "way") {
+      ways.set(el.id, el);
+    } else if (el.type === "relation") {
+      relations.push(el);
+    }
+  }
+  await onStage("features");
+
+  const { scaleMMperM, modelWidthMm, modelDepthMm } = computeScale(selection);
+  const { bearing } = selection;
+  const buildings: SceneData["buildings"] = [];
+  const water: SceneData["water"] = [];
+  const greenery: SceneData["greenery"] = [];
+  const roads: SceneData["roads"] = [];
+  const trees: SceneData["trees"] = [];
+
+  // Trees are kept only where the whole crown sits on the base
+  const addTree = (tags: Record<string, string>, position: Point2D) => {
+    const tree = treeData(tags, position, scaleMMperM);
+    if (
+      Math.abs(position[0]) + tree.crownRadiusMm <= modelWidthMm / 2 &&
+      Math.abs(position[1]) + tree.crownRadiusMm <= modelDepthMm / 2
+    ) {
+      trees.push(tree);
+    }
+  };
+
+  for (const node of treeNodes) {
+    const [position] = projectPolygon([[node.lat, node.lon]], selection, scaleMMperM, false);
+    addTree(node.tags ?? {}, position);
+  }
+
+  // Outlines and parts are kept apart until the end: where an outline
+  // has parts (Simple 3D Buildings) the parts replace it
+  const outlines: BuildingData[] = [];
+  const parts: BuildingData[] = [];
+  const addBuilding = (building: BuildingData, tags: Record<string, string>) => {
+    (tags["building:part"] ? parts : outlines).push(building);
+  };
+
+  const classify = (tags?: Record<string, string>) => {
+    if (!tags) return null;
+    if (tags["building"] || tags["building:part"]) return "building";
+    if (tags["natural"] === "coastline") return "coastline";
+    if (
+      tags["natural"] === "water" ||
+      tags["natural"] === "bay" ||
+      tags["waterway"] ||
+      tags["landuse"] === "reservoir"
+    )
+      return "water";
+    if (tags["highway"]) return "road";
+    if (tags["railway"]) return "railway";
+    if (tags["natural"] === "tree_row") return "treeRow";
+    if (GREEN_TAGS.some(([key, values]) => values.test(tags[key] ?? ""))) return "greenery";
+    return null;
+  };
+
+  /** Bridge flag, layer and centreline for a highway or railway carried on a bridge */
+  const bridgeFields = (
+    tags: Record<string, string> | undefined,
+    coords: [number, number][]
+  ): Partial<RoadData> => {
+    if (!tags?.["bridge"] || tags["bridge"] === "no") return {};
+    return {
+      bridge: true,
+      // A bridge always clears what it crosses, even if mapped on layer 0
+      layer: Math.max(1, parseInt(tags["layer"] ?? "", 10) || 1),
+      centreline: projectPolygon(coords, selection, scaleMMperM, false),
+    };
+  };
+
+  /**
+   * Assemble and project a multipolygon relation's rings, giving each
+   * outer ring the holes (courtyards, ponds in a park) that lie inside it.
+   */
+  const multipolygon = (outerWays: OsmWay[], innerWays: OsmWay[]): PolygonWithHoles[] => {
+    const holes: Polygon[] = [];
+    for (const ring of assembleRings(innerWays, nodeMap)) {
+      const holePoly = projectPolygon(ring, selection, scaleMMperM);
+      if (holePoly.length >= 3) holes.push(holePoly);
+    }
+
+    const shapes: PolygonWithHoles[] = [];
+    for (const ring of assembleRings(outerWays, nodeMap)) {
+      const poly = projectPolygon(ring, selection, scaleMMperM);
+      if (poly.length < 3) continue;
+      const own = holes.filter((h) => pointInPolygon(vertexMean(h), poly));
+      shapes.push({ polygon: poly, ...(own.length > 0 && { holes: own }) });
+    }
+    return shapes;
+  };
+
+  // Outer ways a relation builds from: one tagged like its relation (a
+  // building or lake outline mapped on the way as well) would otherwise
+  // be built a second time on its own, overlapping the relation's shape
+  const consumedWays = new Set<number>();
+  for (const rel of relations) {
+    const kind = classify(rel.tags);
+    if (!kind || (kind === "water" && rel.tags?.["type"] === "waterway")) continue;
+    for (const member of rel.members) {
+      const way = member.type === "way" && member.role === "outer" ? ways.get(member.ref) : undefined;
+      if (way && classify(way.tags) === kind) consumedWays.add(way.id);
+    }
+  }
+
+  // Collect coastline ways separately for sea polygon construction
+  const coastlineWays: OsmWay[] = [];
+
+  for (const way of ways.values()) {
+    const kind = classify(way.tags);
+    if (!kind || consumedWays.has(way.id)) continue;
+
+    if (kind === "coastline") {
+      coastlineWays.push(way);
+      continue;
+    }
+
+    const coords = resolveWayCoords(way.nodes, nodeMap);
+    if (!coords) continue;
+
+    if (kind === "road") {
+      if (coords.length < 2) continue;
+      const roadKind = classifyRoad(way.tags?.["highway"] ?? "");
+      const strip = projectRoad(coords, selection, scaleMMperM, roadKind);
+      const bridge = bridgeFields(way.tags, coords);
+      for (const shape of strip) roads.push({ ...shape, kind: roadKind, ...bridge });
+    } else if (kind === "railway") {
+      if (coords.length < 2) continue;
+      const strip = projectRoad(coords, selection, scaleMMperM, "railway");
+      const bridge = bridgeFields(way.tags, coords);
+      for (const shape of strip) roads.push({ ...shape, kind: "railway", ...bridge });
+    } else if (kind === "treeRow") {
+      if (coords.length < 2) continue;
+      const tags = way.tags ?? {};
+      const line = projectPolygon(coords, selection, scaleMMperM, false);
+      // No closer than the crowns allow — the density cap would drop them anyway
+      const spacing = Math.max(
+        TREE_ROW_SPACING_M * scaleMMperM,
+        treeData(tags, [0, 0], scaleMMperM).crownRadiusMm * 2
+      );
+      for (const position of pointsAlong(line, spacing)) addTree(tags, position);
+    } else {
+      if (coords.length < 3) continue;
+
+      if (kind === "water" || kind === "greenery") {
+        const isClosed =
+          way.nodes.length > 2 &&
+          way.nodes[0] === way.nodes[way.nodes.length - 1];
+        if (!isClosed) continue;
+      }
+
+      const poly = projectPolygon(coords, selection, scaleMMperM);
+      if (poly.length < 3) continue;
+
+      if (kind === "building") {
+        const tags = way.tags ?? {};
+        addBuilding({ polygon: poly, ...buildingShape(tags, poly, scaleMMperM, bearing, way.id) }, tags);
+      } else if (kind === "greenery") {
+        greenery.push({ polygon: poly });
+      } else {
+        water.push({ polygon: poly });
+      }
+    }
+  }
+
+  for (const rel of relations) {
+    const kind = classify(rel.tags);
+    if (!kind) continue;
+    if (kind === "water" && rel.tags?.["type"] === "waterway") continue;
+
+    const outerWays: OsmWay[] = [];
+    const innerWays: OsmWay[] = [];
+    for (const member of rel.members) {
+      if (member.type !== "way") continue;
+      const way = ways.get(member.ref);
+      if (!way) continue;
+      if (member.role === "outer") outerWays.push(way);
+      else if (member.role === "inner") innerWays.push(way);
+    }
+
+    if (kind === "water") {
+      // Assemble inner rings (islands/holes) and project them
+      const innerRings = assembleRings(innerWays, nodeMap);
+      const projectedHoles: Polygon[] = [];
+      for (const ring of innerRings) {
+        const holePoly = projectPolygon(ring, selection, scaleMMperM);
+        if (holePoly.length >= 3) projectedHoles.push(holePoly);
+      }
+
+      const outerRings = assembleRings(outerWays, nodeMap);
+      for (const ring of outerRings) {
+        const poly = projectPolygon(ring, selection, scaleMMperM);
+        if (poly.length < 3) continue;
+        water.push({
+          polygon: poly,
+          holes: projectedHoles.length > 0 ? projectedHoles : undefined,
+        });
+      }
+    } else if (kind === "building") {
+      // Height tags sometimes sit on a single outer way rather than the relation
+      const tags = {
+        ...rel.tags,
+        ...(outerWays.length === 1 ? outerWays[0].tags : undefined),
+      };
+      for (const shape of multipolygon(outerWays, innerWays)) {
+        addBuilding(
+          { ...shape, ...buildingShape(tags, shape.polygon, scaleMMperM, bearing, rel.id) },
+          tags
+        );
+      }
+    } else if (kind === "greenery") {
+      greenery.push(...multipolygon(outerWays, innerWays));
+    }
+  }
+
+  buildings.push(
+    ...parts,
+    ...outlines.filter(
+      (outline) => !parts.some((part) => pointInPolygon(vertexMean(part.polygon), outline.polygon))
+    )
+  );
+
+  await onStage("coastline");
+  // Build sea polygons from coastline ways
+  for (const poly of buildSeaPolygons(coastlineWays, nodeMap, selection, scaleMMperM)) {
+    if (poly.length >= 3) {
+      water.push({ polygon: poly });
+    }
+  }
+
+  await onStage("cleanup");
+  const scene = simplifyScene(
+    clipToOutline(
+      {
+        buildings,
+        water,
+        roads: mergeRoadNetwork(roads),
+        greenery,
+        trees: capTreeDensity(trees),
+        modelWidthMm,
+        modelDepthMm,
+      },
+      selection,
+      scaleMMperM
+    )
+  );
+  if (
+    scene.buildings.length === 0 &&
+    scene.water.length === 0 &&
+    scene.roads.length === 0 &&
+    scene.greenery.length === 0 &&
+    scene.trees.length === 0
+  ) {
+    return null;
+  }
+  return scene;
+}
@@ -0,0 +1,160 @@
+/*
+ * Overpass servers to fetch from, with failover. Each endpoint's health
+ * is tracked for the session: one that fails or says it's overloaded is
+ * set aside for a while and the next one is tried straight away, so a
+ * single busy public instance doesn't hold up every customer.
+ */
+
+/**
+ * Interpreter URLs in order of preference, from a comma-separated
+ * VITE_OVERPASS_ENDPOINTS (put a self-hosted instance first). Unset =
+ * the main public instance, then public mirrors.
+ */
+export const OVERPASS_ENDPOINTS: string[] = (
+  import.meta.env.VITE_OVERPASS_ENDPOINTS ||
+  "https://overpass-api.de/api/interpreter,https://overpass.private.coffee/api/interpreter,https://maps.mail.ru/osm/tools/overpass/api/interpreter"
+)
+  .split(",")
+  .map((url) => url.trim())
+  .filter(Boolean);
+
+/** How long a failing endpoint sits out after its first failure — doubles with each one after */
+const FAILURE_COOLDOWN_MS = 15_000;
+
+/** Longest a failing endpoint sits out without a Retry-After saying otherwise */
+const MAX_COOLDOWN_MS = 5 * 60_000;
+
+/** Statuses meaning "busy, come back later" rather than a broken server or query */
+const OVERLOADED_STATUSES = [429, 503, 504];
+
+interface EndpointHealth {
+  /** Failures in a row; reset by a success */
+  failures: number;
+  /** Date.now() before which the endpoint isn't tried */
+  availableAt: number;
+}
+
+const health = new Map<string, EndpointHealth>();
+
+function healthOf(url: string): EndpointHealth {
+  let h = health.get(url);
+  if (!h) {
+    h = { failures: 0, availableAt: 0 };
+    health.set(url, h);
+  }
+  return h;
+}
+
+/** Thrown when every endpoint failed or is sitting out */
+export class OverpassUnavailableError extends Error {
+  /** Date.now() at which the first endpoint comes back */
+  retryAt: number;
+
+  constructor(message: string, retryAt: number) {
+    super(message);
+    this.name = "OverpassUnavailableError";
+    this.retryAt = retryAt;
+  }
+}
+
+/**
+ * Thrown when a server turns the query itself down (a 4xx other than
+ * 429: malformed, too long, too big). Every server would say the same,
+ * so it isn't failed over or retried, and no server is set aside for it.
+ */
+export class OverpassQueryError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "OverpassQueryError";
+    this.status = status;
+  }
+}
+
+/** A Retry-After header in ms from now: either delay-seconds or an HTTP date */
+function retryAfterMs(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/** Set an endpoint aside: for as long as it asked, else for its failure cooldown */
+function markFailed(url: string, waitMs: number | null) {
+  const h = healthOf(url);
+  h.failures++;
+  const cooldown = Math.min(FAILURE_COOLDOWN_MS * 2 ** (h.failures - 1), MAX_COOLDOWN_MS);
+  h.availableAt = Date.now() + (waitMs ?? cooldown);
+}
+
+/**
+ * Endpoints that can be tried now, healthiest first; ties keep the
+ * configured order, so a self-hosted instance listed first stays first.
+ */
+function availableEndpoints(): string[] {
+  const now = Date.now();
+  return OVERPASS_ENDPOINTS.filter((url) => healthOf(url).availableAt <= now).sort(
+    (a, b) => healthOf(a).failures - healthOf(b).failures
+  );
+}
+
+/**
+ * Run a query on the first endpoint that answers, failing over through
+ * the rest, and hand the response to `read` (parsing in the scene
+ * worker). A response `read` throws on — an HTML error page, truncated
+ * JSON — counts as that endpoint failing, just like a 5xx. Throws
+ * OverpassUnavailableError once every endpoint has failed or is sitting
+ * out, or OverpassQueryError straight away if the query itself is
+ * rejected.
+ */
+export async function fetchOverpass<T>(
+  query: string,
+  signal: AbortSignal,
+  read: (body: ArrayBuffer) => Promise<T>
+): Promise<T> {
+  const errors: string[] = [];
+  for (const url of availableEndpoints()) {
+    const host = new URL(url).host;
+    try {
+      const res = await fetch(url, {
+        method: "POST",
+        body: `data=${encodeURIComponent(query)}`,
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        signal,
+      });
+      if (res.status >= 400 && res.status < 500 && !OVERLOADED_STATUSES.includes(res.status)) {
+        throw new OverpassQueryError(`${host} rejected the query: HTTP ${res.status}`, res.status);
+      }
+      if (!res.ok) {
+        const overloaded = OVERLOADED_STATUSES.includes(res.status);
+        markFailed(url, overloaded ? retryAfterMs(res.headers.get("Retry-After")) : null);
+        errors.push(`${host}: HTTP ${res.status}`);
+        continue;
+      }
+      const body = await res.arrayBuffer();
+      let result: T;
+      try {
+        result = await read(body);
+      } catch (err) {
+        if (signal.aborted) throw err;
+        markFailed(url, null);
+        errors.push(`${host}: unreadable response (${err instanceof Error ? err.message : String(err)})`);
+        continue;
+      }
+      healthOf(url).failures = 0;
+      return result;
+    } catch (err) {
+      if (signal.aborted || err instanceof OverpassQueryError) throw err;
+      markFailed(url, null);
+      errors.push(`${host}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  const retryAt = Math.min(...OVERPASS_ENDPOINTS.map((url) => healthOf(url).availableAt));
+  throw new OverpassUnavailableError(
+    errors.length > 0 ? `Overpass unavailable (${errors.join("; ")})` : "All Overpass servers are busy",
+    retryAt
+  );
+}
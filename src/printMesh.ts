@@ -0,0 +1,239 @@
+import * as THREE from "three";
+import Module, { type Manifold, type ManifoldToplevel } from "manifold-3d";
+import wasmUrl from "manifold-3d/manifold.wasm?url";
+import type { SceneData } from "./types";
+import {
+  alignmentKeyPrisms,
+  keyPocketPrisms,
+  LAYER_COLORS,
+  modelLayerSpecs,
+  type IndexedMesh,
+  type ModelLayer,
+  type ModelLayerOptions,
+  type Plate,
+  type Prism,
+} from "./modelGeometry";
+
+/** A feature the print pipeline had to leave out of the mesh */
+export interface PrintIssue {
+  /** Name of the layer the feature belongs to, e.g. "Buildings" */
+  layer: string;
+  /** Index of the feature within that layer */
+  index: number;
+  reason: string;
+}
+
+export interface PrintMesh {
+  /**
+   * Each layer boolean-unioned into a single manifold, and carved so no
+   * two layers share any volume (later layers win where they overlap).
+   */
+  layers: ModelLayer[];
+  /** Every layer fused into one manifold solid */
+  solid: THREE.BufferGeometry;
+  /** Features that could not be repaired and were dropped */
+  issues: PrintIssue[];
+}
+
+let manifoldModule: Promise<ManifoldToplevel> | null = null;
+
+/** Load the manifold WASM module once, on first use. */
+function loadManifold(): Promise<ManifoldToplevel> {
+  if (!manifoldModule) {
+    manifoldModule = Module({ locateFile: () => wasmUrl }).then((wasm) => {
+      wasm.setup();
+      return wasm;
+    });
+  }
+  return manifoldModule;
+}
+
+/**
+ * Turn one prism into a manifold solid, or explain why it can't be.
+ *
+ * CrossSection runs the outline through Clipper2, which resolves
+ * self-intersections, duplicate points and fold-backs on the way in —
+ * so most bad OSM geometry is repaired here rather than rejected.
+ */
+function prismToManifold(wasm: ManifoldToplevel, prism: Prism): Manifold | string {
+  const rings = [prism.polygon, ...(prism.holes ?? [])];
+  if (rings.some((ring) => ring.some(([x, y]) => !isFinite(x) || !isFinite(y)))) {
+    return "non-finite coordinates";
+  }
+  if (!(prism.height > 0)) return "zero height";
+
+  // Holes need even-odd filling; single rings may be wound either way
+  const fillRule = prism.holes?.length ? "EvenOdd" : "NonZero";
+  const section = new wasm.CrossSection(rings, fillRule);
+  if (section.isEmpty()) {
+    section.delete();
+    return "no area left after removing self-intersections";
+  }
+
+  const extruded = wasm.Manifold.extrude(section, prism.height);
+  const placed = extruded.translate(0, 0, prism.bottom);
+  section.delete();
+  extruded.delete();
+
+  // A purely vertical shift per (x, y) column can't fold the mesh over itself
+  const { drape } = prism;
+  const solid = drape ? placed.warp((v) => { v[2] += drape(v[0], v[1]); }) : placed;
+  if (solid !== placed) placed.delete();
+
+  const status = solid.status();
+  if (status !== "NoError") {
+    solid.delete();
+    return `mesh error: ${status}`;
+  }
+  return solid;
+}
+
+function meshToManifold(wasm: ManifoldToplevel, mesh: IndexedMesh): Manifold | string {
+  const input = new wasm.Mesh({ numProp: 3, vertProperties: mesh.positions, triVerts: mesh.indices });
+  input.merge();
+  try {
+    return new wasm.Manifold(input);
+  } catch (err) {
+    return `mesh error: ${err instanceof Error ? err.message : String(err)}`;
+  }
+}
+
+/**
+ * Cut a solid that strays off a plate back to the plate's edges. Prisms
+ * arrive already clipped; this catches roofs, trees and the like.
+ */
+function trimToPlate(wasm: ManifoldToplevel, solid: Manifold, { bounds }: Plate): Manifold {
+  const [minX, minY, maxX, maxY] = bounds;
+  const { min, max } = solid.boundingBox();
+  const eps = 1e-4;
+  if (min[0] >= minX - eps && min[1] >= minY - eps && max[0] <= maxX + eps && max[1] <= maxY + eps) {
+    return solid;
+  }
+  const cube = wasm.Manifold.cube([maxX - minX, maxY - minY, max[2] - min[2] + 2]);
+  const cutter = cube.translate(minX, minY, min[2] - 1);
+  const trimmed = solid.intersect(cutter);
+  for (const m of [solid, cube, cutter]) m.delete();
+  return trimmed;
+}
+
+function manifoldToGeometry(solid: Manifold): THREE.BufferGeometry {
+  const mesh = solid.getMesh();
+  const positions = new Float32Array(mesh.numVert * 3);
+  for (let i = 0; i < mesh.numVert; i++) {
+    positions[i * 3] = mesh.vertProperties[i * mesh.numProp];
+    positions[i * 3 + 1] = mesh.vertProperties[i * mesh.numProp + 1];
+    positions[i * 3 + 2] = mesh.vertProperties[i * mesh.numProp + 2];
+  }
+  const geo = new THREE.BufferGeometry();
+  geo.setAttribute("position", new THREE.BufferAttribute(positions, 3));
+  geo.setIndex(new THREE.BufferAttribute(new Uint32Array(mesh.triVerts), 1));
+  return geo;
+}
+
+/**
+ * Build the print-ready mesh for a scene.
+ *
+ * Unlike the preview — which just stacks overlapping extrusions — every
+ * layer here is boolean-unioned so crossing roads, touching buildings
+ * and water under roads become one clean shell, then all layers are
+ * fused onto the base plate. The result is placed with its underside
+ * on z = 0, ready for a slicer.
+ *
+ * Given a plate of a tiled print, only that plate is built — centred on
+ * the origin, with pockets for the alignment keys cut into its underside.
+ */
+export async function buildPrintMesh(
+  sceneData: SceneData,
+  options: ModelLayerOptions = {}
+): Promise<PrintMesh> {
+  const wasm = await loadManifold();
+  const { Manifold } = wasm;
+  const { plate } = options;
+  const issues: PrintIssue[] = [];
+
+  const unions: { name: string; color: string; solid: Manifold }[] = [];
+  for (const spec of modelLayerSpecs(sceneData, options)) {
+    const solids: Manifold[] = [];
+    const results = [
+      ...spec.prisms.map((prism) => prismToManifold(wasm, prism)),
+      ...(spec.meshes ?? []).map((mesh) => {
+        const result = meshToManifold(wasm, mesh);
+        return plate && typeof result !== "string" ? trimToPlate(wasm, result, plate) : result;
+      }),
+    ];
+    results.forEach((result, index) => {
+      if (typeof result === "string") issues.push({ layer: spec.name, index, reason: result });
+      else solids.push(result);
+    });
+    if (solids.length === 0) continue;
+
+    const solid = Manifold.union(solids);
+    for (const s of solids) s.delete();
+    unions.push({ name: spec.name, color: spec.color, solid });
+  }
+
+  if (unions.length === 0) throw new Error("Nothing to export");
+
+  if (plate) {
+    const pockets = keyPocketPrisms(sceneData)
+      .map((prism) => prismToManifold(wasm, prism))
+      .filter((p): p is Manifold => typeof p !== "string");
+    if (pockets.length > 0) {
+      const cut = Manifold.union(pockets);
+      for (const p of pockets) p.delete();
+      for (const u of unions) {
+        const carved = u.solid.subtract(cut);
+        u.solid.delete();
+        u.solid = carved;
+      }
+      cut.delete();
+    }
+  }
+
+  const fused = Manifold.union(unions.map((u) => u.solid));
+  const [minX, minY, maxX, maxY] = plate?.bounds ?? [0, 0, 0, 0];
+  const offset: [number, number, number] = [-(minX + maxX) / 2, -(minY + maxY) / 2, -fused.boundingBox().min[2]];
+  const solid = manifoldToGeometry(fused);
+  solid.translate(...offset);
+  fused.delete();
+
+  // Carve from the top layer down so each keeps only unclaimed volume
+  const layers: ModelLayer[] = [];
+  let claimed: Manifold | null = null;
+  for (let i = unions.length - 1; i >= 0; i--) {
+    const { name, color, solid: layerSolid } = unions[i];
+    const carved = claimed ? layerSolid.subtract(claimed) : layerSolid;
+    if (!carved.isEmpty()) {
+      const geometry = manifoldToGeometry(carved);
+      geometry.translate(...offset);
+      layers.unshift({ name, color, geometry });
+    }
+
+    const nextClaimed: Manifold = claimed ? claimed.add(layerSolid) : layerSolid;
+    if (carved !== layerSolid) carved.delete();
+    if (claimed) {
+      claimed.delete();
+      layerSolid.delete();
+    }
+    claimed = nextClaimed;
+  }
+  claimed?.delete();
+
+  return { layers, solid, issues };
+}
+
+/** The alignment keys for a tiled print, laid out together as one more print. */
+export async function buildKeyMesh(count: number): Promise<PrintMesh> {
+  const wasm = await loadManifold();
+  const keys = alignmentKeyPrisms(count)
+    .map((prism) => prismToManifold(wasm, prism))
+    .filter((k): k is Manifold => typeof k !== "string");
+  if (keys.length === 0) throw new Error("No alignment keys to export");
+
+  const fused = wasm.Manifold.union(keys);
+  for (const k of keys) k.delete();
+  const layers = [{ name: "Alignment keys", color: LAYER_COLORS.frame, geometry: manifoldToGeometry(fused) }];
+  const solid = manifoldToGeometry(fused);
+  fused.delete();
+  return { layers, solid, issues: [] };
+}
@@ -0,0 +1,242 @@
+import type { BuildingData, Point2D, Polygon, PolygonWithHoles, SceneData } from "./types";
+import { growPolygon, MIN_FOOTPRINT_MM2, shapeArea, subtractPolygons, unionPolygons } from "./geometryUtils";
+
+/*
+ * Printability checks over a scene, so problems turn up on the product
+ * page instead of in the slicer. Each issue names one feature and what
+ * auto-fix would do about it: drop it, thicken it, repair its outline
+ * or fill in underneath it.
+ */
+
+/** Narrowest line a standard nozzle lays down (mm) */
+export const NOZZLE_WIDTH_MM = 0.4;
+
+/** Thin features are thickened this much past the nozzle width, so they pass the check afterwards (mm) */
+const THICKEN_MARGIN_MM = 0.05;
+
+/** Thin scraps this small where a feature meets the model edge are clipping leftovers (mm²) */
+const MAX_SLIVER_AREA_MM2 = 2;
+
+/** Raised parts can hang this much area over nothing — printers bridge small gaps (mm²) */
+const MAX_OVERHANG_MM2 = 4;
+
+/** A vertex this close to the model edge was put there by clipping (mm) */
+const EDGE_TOLERANCE_MM = 1e-3;
+
+export type PrintabilityCheck = "edge-sliver" | "tiny-footprint" | "thin" | "self-intersection" | "overhang";
+
+/** What auto-fix does about an issue */
+export type PrintabilityFix = "drop" | "thicken" | "repair" | "ground";
+
+/** The scene's feature lists that get checked */
+export type FeatureLayer = "buildings" | "roads" | "water" | "greenery";
+
+export interface PrintabilityIssue {
+  check: PrintabilityCheck;
+  layer: FeatureLayer;
+  /** Index of the feature within its layer */
+  index: number;
+  /** What was measured, e.g. "0.21mm wide" */
+  detail: string;
+  fix: PrintabilityFix;
+}
+
+/** Every issue found, at most one per feature */
+export interface PrintabilityReport {
+  issues: PrintabilityIssue[];
+}
+
+function perimeter(ring: Polygon): number {
+  let length = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    length += Math.hypot(ring[i][0] - ring[j][0], ring[i][1] - ring[j][1]);
+  }
+  return length;
+}
+
+/**
+ * Typical width of a shape: twice its area over its perimeter. Exact for
+ * a long strip, so a merged road network reads as its road width.
+ */
+function typicalWidth(shape: PolygonWithHoles): number {
+  const length = [shape.polygon, ...(shape.holes ?? [])].reduce((sum, r) => sum + perimeter(r), 0);
+  return length > 0 ? (2 * shapeArea(shape)) / length : 0;
+}
+
+/** Whether segments ab and cd cross at a point inside both */
+function segmentsCross(a: Point2D, b: Point2D, c: Point2D, d: Point2D): boolean {
+  const side = (o: Point2D, p: Point2D, q: Point2D) =>
+    Math.sign((p[0] - o[0]) * (q[1] - o[1]) - (p[1] - o[1]) * (q[0] - o[0]));
+  return side(c, d, a) * side(c, d, b) < 0 && side(a, b, c) * side(a, b, d) < 0;
+}
+
+/** Whether any two edges of a ring that aren't neighbours cross — swept along X */
+function ringSelfIntersects(ring: Polygon): boolean {
+  const n = ring.length;
+  const edges = ring
+    .map((a, i) => {
+      const b = ring[(i + 1) % n];
+      return { i, a, b, minX: Math.min(a[0], b[0]), maxX: Math.max(a[0], b[0]) };
+    })
+    .sort((e, f) => e.minX - f.minX);
+  for (let j = 0; j < edges.length; j++) {
+    for (let k = j + 1; k < edges.length && edges[k].minX <= edges[j].maxX; k++) {
+      const gap = Math.abs(edges[j].i - edges[k].i);
+      if (gap === 1 || gap === n - 1) continue;
+      if (segmentsCross(edges[j].a, edges[j].b, edges[k].a, edges[k].b)) return true;
+    }
+  }
+  return false;
+}
+
+/** Whether a point lies on the edge of the model: its outline, or the plain rectangle */
+function edgeTest({ outline, modelWidthMm, modelDepthMm }: SceneData): (p: Point2D) => boolean {
+  if (!outline) {
+    return ([x, y]) =>
+      modelWidthMm / 2 - Math.abs(x) < EDGE_TOLERANCE_MM || modelDepthMm / 2 - Math.abs(y) < EDGE_TOLERANCE_MM;
+  }
+  return ([x, y]) =>
+    outline.some(([ax, ay], i) => {
+      const [bx, by] = outline[(i + 1) % outline.length];
+      const dx = bx - ax;
+      const dy = by - ay;
+      const t = Math.max(0, Math.min(1, ((x - ax) * dx + (y - ay) * dy) / (dx * dx + dy * dy || 1)));
+      return Math.hypot(x - ax - t * dx, y - ay - t * dy) < EDGE_TOLERANCE_MM;
+    });
+}
+
+/** The first problem found with one feature's outline */
+function shapeIssue(
+  shape: PolygonWithHoles,
+  layer: FeatureLayer,
+  onEdge: (p: Point2D) => boolean
+): Omit<PrintabilityIssue, "layer" | "index"> | null {
+  // A crossed outline's area is meaningless until it's repaired
+  if ([shape.polygon, ...(shape.holes ?? [])].some(ringSelfIntersects)) {
+    return { check: "self-intersection", detail: "outline crosses itself", fix: "repair" };
+  }
+  const area = shapeArea(shape);
+  const width = typicalWidth(shape);
+  if (width < NOZZLE_WIDTH_MM && area < MAX_SLIVER_AREA_MM2 && shape.polygon.some(onEdge)) {
+    return { check: "edge-sliver", detail: `${width.toFixed(2)}mm wide at the edge`, fix: "drop" };
+  }
+  if (layer === "buildings" && area < MIN_FOOTPRINT_MM2) {
+    return { check: "tiny-footprint", detail: `${area.toFixed(2)}mm² footprint`, fix: "drop" };
+  }
+  if (width < NOZZLE_WIDTH_MM) {
+    return { check: "thin", detail: `${width.toFixed(2)}mm wide`, fix: "thicken" };
+  }
+  return null;
+}
+
+function bbox(ring: Polygon): [number, number, number, number] {
+  const xs = ring.map(([x]) => x);
+  const ys = ring.map(([, y]) => y);
+  return [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)];
+}
+
+/**
+ * Raised building parts (over arcades, or cantilevered out from a tower)
+ * with more floor hanging over nothing than a printer can bridge. Only
+ * other buildings reaching up to a part's underside count as support.
+ */
+function overhangIssues(buildings: BuildingData[], skip: Set<number>): PrintabilityIssue[] {
+  const issues: PrintabilityIssue[] = [];
+  const boxes = buildings.map((b) => bbox(b.polygon));
+  buildings.forEach((b, index) => {
+    const floor = b.minHeightMm ?? 0;
+    if (floor <= 0 || skip.has(index)) return;
+    const [x0, y0, x1, y1] = boxes[index];
+    const supports = buildings.filter((o, j) => {
+      const [ox0, oy0, ox1, oy1] = boxes[j];
+      return (
+        j !== index &&
+        (o.minHeightMm ?? 0) < floor &&
+        o.heightMm >= floor - 1e-3 &&
+        ox0 < x1 && ox1 > x0 && oy0 < y1 && oy1 > y0
+      );
+    });
+    try {
+      const hanging = subtractPolygons([b], supports).reduce((sum, p) => sum + shapeArea(p), 0);
+      if (hanging > MAX_OVERHANG_MM2) {
+        issues.push({
+          check: "overhang",
+          layer: "buildings",
+          index,
+          detail: `${hanging.toFixed(1)}mm² unsupported`,
+          fix: "ground",
+        });
+      }
+    } catch (err) {
+      // A part and the ones under it often share walls mapped a hair apart, which the
+      // subtraction can trip over; better one part unchecked than no report at all
+      console.warn(`Overhang check failed for building #${index + 1}:`, err);
+    }
+  });
+  return issues;
+}
+
+/** Check every building, road, water and green feature of a scene. */
+export function checkPrintability(sceneData: SceneData): PrintabilityReport {
+  const onEdge = edgeTest(sceneData);
+  const layers: [FeatureLayer, PolygonWithHoles[]][] = [
+    ["buildings", sceneData.buildings],
+    ["roads", sceneData.roads],
+    ["water", sceneData.water],
+    ["greenery", sceneData.greenery],
+  ];
+  const issues: PrintabilityIssue[] = [];
+  for (const [layer, shapes] of layers) {
+    shapes.forEach((shape, index) => {
+      const issue = shapeIssue(shape, layer, onEdge);
+      if (issue) issues.push({ ...issue, layer, index });
+    });
+  }
+  const flagged = new Set(issues.filter((i) => i.layer === "buildings").map((i) => i.index));
+  issues.push(...overhangIssues(sceneData.buildings, flagged));
+  return { issues };
+}
+
+function applyFix<T extends PolygonWithHoles>(shape: T, fix: PrintabilityFix): T[] {
+  switch (fix) {
+    case "drop":
+      return [];
+    case "thicken":
+      return growPolygon(shape, (NOZZLE_WIDTH_MM + THICKEN_MARGIN_MM - typicalWidth(shape)) / 2).map((s) => ({
+        ...shape,
+        ...s,
+      }));
+    case "repair":
+      return unionPolygons([shape]).map((s) => ({ ...shape, ...s }));
+    case "ground":
+      return [{ ...shape, minHeightMm: undefined }];
+  }
+}
+
+/**
+ * Apply the fix for every issue in a report. The report must come from
+ * this same scene, since issues point at features by index.
+ */
+export function fixPrintability(sceneData: SceneData, { issues }: PrintabilityReport): SceneData {
+  if (issues.length === 0) return sceneData;
+  const byFeature = new Map(issues.map((i) => [`${i.layer}:${i.index}`, i]));
+  const fixLayer = <T extends PolygonWithHoles>(layer: FeatureLayer, shapes: T[]): T[] =>
+    shapes.flatMap((shape, index) => {
+      const issue = byFeature.get(`${layer}:${index}`);
+      if (!issue) return [shape];
+      try {
+        return applyFix(shape, issue.fix);
+      } catch (err) {
+        console.warn(`Could not ${issue.fix} ${layer} #${index + 1}, leaving it as it is:`, err);
+        return [shape];
+      }
+    });
+
+  return {
+    ...sceneData,
+    buildings: fixLayer("buildings", sceneData.buildings),
+    roads: fixLayer("roads", sceneData.roads),
+    water: fixLayer("water", sceneData.water),
+    greenery: fixLayer("greenery", sceneData.greenery),
+  };
+}
@@ -0,0 +1,166 @@
+import type { ProjectionKind, Selection } from "./types";
+
+/*
+ * Map projections for turning [lat, lon] into flat metres around a
+ * selection. Every path from geography to model space goes through
+ * projectionFor, so features, the terrain grid and the selection frame
+ * always agree with each other.
+ *
+ * Both projections are transverse Mercator on the WGS84 ellipsoid
+ * (Krüger's series, good to well under a millimetre within a UTM zone),
+ * which stays true to scale along its central meridian instead of
+ * drifting with latitude like a single cosine does.
+ */
+
+/** Projection used for selections that don't name one */
+export const DEFAULT_PROJECTION: ProjectionKind =
+  import.meta.env.VITE_PROJECTION === "utm" ? "utm" : "local";
+
+/** WGS84 semi-major axis (m) and flattening */
+const WGS84_A = 6_378_137;
+const WGS84_F = 1 / 298.257223563;
+
+/** UTM's scale factor on the central meridian */
+const UTM_K0 = 0.9996;
+
+/** Latitude step used to measure scale and grid convergence at the centre (degrees) */
+const CALIBRATION_STEP_DEG = 1e-4;
+
+/**
+ * Flat metres around a selection: X east and Y north of its centre, with
+ * one metre on the ground near the centre being one metre here.
+ */
+export interface Projection {
+  kind: ProjectionKind;
+  /** For display, e.g. "UTM zone 34N" */
+  name: string;
+  forward(lat: number, lon: number): [number, number];
+  inverse(x: number, y: number): [number, number];
+}
+
+const N = WGS84_F / (2 - WGS84_F);
+const E2 = WGS84_F * (2 - WGS84_F);
+/** Radius of the rectifying sphere */
+const A_RECT = (WGS84_A / (1 + N)) * (1 + N ** 2 / 4 + N ** 4 / 64);
+const ALPHA = [N / 2 - (2 * N ** 2) / 3 + (5 * N ** 3) / 16, (13 * N ** 2) / 48 - (3 * N ** 3) / 5, (61 * N ** 3) / 240];
+const BETA = [N / 2 - (2 * N ** 2) / 3 + (37 * N ** 3) / 96, N ** 2 / 48 + N ** 3 / 15, (17 * N ** 3) / 480];
+const DELTA = [2 * N - (2 * N ** 2) / 3 - 2 * N ** 3, (7 * N ** 2) / 3 - (8 * N ** 3) / 5, (56 * N ** 3) / 15];
+const E_CONF = (2 * Math.sqrt(N)) / (1 + N);
+
+const RAD = Math.PI / 180;
+
+/** Transverse Mercator easting/northing (no false origin) about a central meridian */
+function tmForward(lat: number, lon: number, lon0: number, k0: number): [number, number] {
+  const sinLat = Math.sin(lat * RAD);
+  const t = Math.sinh(Math.atanh(sinLat) - E_CONF * Math.atanh(E_CONF * sinLat));
+  const dLon = (lon - lon0) * RAD;
+  const xi = Math.atan2(t, Math.cos(dLon));
+  const eta = Math.atanh(Math.sin(dLon) / Math.sqrt(1 + t * t));
+  let x = eta;
+  let y = xi;
+  ALPHA.forEach((a, j) => {
+    const k = 2 * (j + 1);
+    x += a * Math.cos(k * xi) * Math.sinh(k * eta);
+    y += a * Math.sin(k * xi) * Math.cosh(k * eta);
+  });
+  return [k0 * A_RECT * x, k0 * A_RECT * y];
+}
+
+/** Inverse of tmForward: easting/northing back to [lat, lon] */
+function tmInverse(x: number, y: number, lon0: number, k0: number): [number, number] {
+  const xi = y / (k0 * A_RECT);
+  const eta = x / (k0 * A_RECT);
+  let xiP = xi;
+  let etaP = eta;
+  BETA.forEach((b, j) => {
+    const k = 2 * (j + 1);
+    xiP -= b * Math.sin(k * xi) * Math.cosh(k * eta);
+    etaP -= b * Math.cos(k * xi) * Math.sinh(k * eta);
+  });
+  const chi = Math.asin(Math.sin(xiP) / Math.cosh(etaP));
+  let lat = chi;
+  DELTA.forEach((d, j) => {
+    lat += d * Math.sin(2 * (j + 1) * chi);
+  });
+  return [lat / RAD, lon0 + Math.atan2(Math.sinh(etaP), Math.cos(xiP)) / RAD];
+}
+
+/** UTM zone number for a point, with the Norway and Svalbard exceptions */
+export function utmZone(lat: number, lon: number): number {
+  if (lat >= 56 && lat < 64 && lon >= 3 && lon < 12) return 32;
+  if (lat >= 72 && lat < 84 && lon >= 0 && lon < 42) {
+    if (lon < 9) return 31;
+    if (lon < 21) return 33;
+    if (lon < 33) return 35;
+    return 37;
+  }
+  return Math.min(60, Math.floor((lon + 180) / 6) + 1);
+}
+
+/**
+ * Transverse Mercator about `lon0`, moved so the selection centre is the
+ * origin. Away from the central meridian the grid is slightly larger than
+ * the ground and its north leans off true north, so both are measured at
+ * the centre and taken back out: the frame on the map and the model stay
+ * the same size and the same way up whichever meridian is used.
+ */
+function centredTransverseMercator(
+  kind: ProjectionKind,
+  name: string,
+  [centLat, centLon]: [number, number],
+  lon0: number,
+  k0: number
+): Projection {
+  const [x0, y0] = tmForward(centLat, centLon, lon0, k0);
+  const [xn, yn] = tmForward(centLat + CALIBRATION_STEP_DEG, centLon, lon0, k0);
+  const sinLat = Math.sin(centLat * RAD);
+  const meridianRadius = (WGS84_A * (1 - E2)) / (1 - E2 * sinLat * sinLat) ** 1.5;
+  const scale = Math.hypot(xn - x0, yn - y0) / (meridianRadius * CALIBRATION_STEP_DEG * RAD);
+  const convergence = Math.atan2(xn - x0, yn - y0);
+  const c = Math.cos(convergence) / scale;
+  const s = Math.sin(convergence) / scale;
+
+  return {
+    kind,
+    name,
+    forward(lat, lon) {
+      const [x, y] = tmForward(lat, lon, lon0, k0);
+      const dx = x - x0;
+      const dy = y - y0;
+      return [dx * c - dy * s, dx * s + dy * c];
+    },
+    inverse(x, y) {
+      // (c, s) is a rotation scaled by 1/scale; undo both
+      const f = scale * scale;
+      return tmInverse(x0 + (x * c + y * s) * f, y0 + (-x * s + y * c) * f, lon0, k0);
+    },
+  };
+}
+
+/** Projection for a selection, centred on its frame */
+function makeProjection(kind: ProjectionKind, center: [number, number]): Projection {
+  if (kind === "utm") {
+    const zone = utmZone(...center);
+    return centredTransverseMercator(
+      kind,
+      `UTM zone ${zone}${center[0] >= 0 ? "N" : "S"}`,
+      center,
+      zone * 6 - 183,
+      UTM_K0
+    );
+  }
+  return centredTransverseMercator(kind, "Local transverse Mercator", center, center[1], 1);
+}
+
+/** Projections are looked up once per point, so keep them per selection */
+const projectionCache = new WeakMap<Selection, Projection>();
+
+/** The projection a selection's features, terrain and frame are laid out in. */
+export function projectionFor(selection: Selection): Projection {
+  let projection = projectionCache.get(selection);
+  if (!projection) {
+    projection = makeProjection(selection.projection ?? DEFAULT_PROJECTION, selection.center);
+    projectionCache.set(selection, projection);
+  }
+  return projection;
+}
@@ -0,0 +1,304 @@
+import * as THREE from "three";
+import type { Point2D, Polygon, PolygonWithHoles, RoofData } from "./types";
+import { orientedBoundingBox } from "./geometryUtils";
+import type { IndexedMesh } from "./modelGeometry";
+
+/*
+ * Roof solids that sit on top of a building's wall extrusion.
+ *
+ * Everything is worked out in a local frame centred on the footprint:
+ * u runs along the ridge, v across it (down the slope). Sloped roofs are
+ * the lowest of a few planes over the footprint: the footprint is
+ * triangulated, and each triangle clipped to the convex cell where each
+ * plane is lowest — convex-on-convex clipping, so no 2D booleans that
+ * could fail on awkward footprints. Domes and onions are surfaces of
+ * revolution instead.
+ */
+
+/** Segments around a dome or onion */
+const ROUND_SEGMENTS = 24;
+
+/** Dome profile as [radius, height] fractions from the base up */
+const DOME_PROFILE: [number, number][] = [
+  ...Array.from({ length: 6 }, (_, i): [number, number] => {
+    const t = (i / 6) * (Math.PI / 2);
+    return [Math.cos(t), Math.sin(t)];
+  }),
+  [0, 1],
+];
+
+/** Onion profile: bulges past the drum, then tapers to a point */
+const ONION_PROFILE: [number, number][] = [
+  [1, 0],
+  [1.12, 0.15],
+  [1.15, 0.3],
+  [1, 0.47],
+  [0.7, 0.63],
+  [0.35, 0.8],
+  [0.12, 0.92],
+  [0, 1],
+];
+
+/** Roof frame: local (u, v) → model (x, y) is origin + u·axis + v·perp(axis) */
+interface RoofFrame {
+  origin: Point2D;
+  axis: Point2D;
+  /** Half extents of the footprint along u and v */
+  halfU: number;
+  halfV: number;
+}
+
+/** z = c + cu·u + cv·v, in mm above the top of the walls */
+type Plane = [number, number, number];
+
+function toLocal([x, y]: Point2D, { origin, axis }: RoofFrame): Point2D {
+  const dx = x - origin[0];
+  const dy = y - origin[1];
+  return [dx * axis[0] + dy * axis[1], -dx * axis[1] + dy * axis[0]];
+}
+
+function toWorld([u, v]: Point2D, { origin, axis }: RoofFrame): Point2D {
+  return [origin[0] + u * axis[0] - v * axis[1], origin[1] + u * axis[1] + v * axis[0]];
+}
+
+/**
+ * Place the frame: the ridge follows the footprint's long side unless
+ * the roof says otherwise, and the origin sits mid-footprint.
+ */
+function roofFrame(outline: Polygon, roof: RoofData): RoofFrame {
+  const obb = orientedBoundingBox(outline);
+  let axis = obb.axis;
+  if (roof.directionDeg !== undefined) {
+    // Slopes face the direction, so the ridge runs perpendicular to it
+    const rad = (roof.directionDeg * Math.PI) / 180;
+    axis = [Math.cos(rad), -Math.sin(rad)];
+  } else if (roof.across) {
+    axis = [-axis[1], axis[0]];
+  }
+
+  let minU = Infinity, maxU = -Infinity, minV = Infinity, maxV = -Infinity;
+  for (const p of outline) {
+    const [u, v] = toLocal(p, { origin: [0, 0], axis, halfU: 0, halfV: 0 });
+    minU = Math.min(minU, u);
+    maxU = Math.max(maxU, u);
+    minV = Math.min(minV, v);
+    maxV = Math.max(maxV, v);
+  }
+  const origin = toWorld([(minU + maxU) / 2, (minV + maxV) / 2], { origin: [0, 0], axis, halfU: 0, halfV: 0 });
+  return { origin, axis, halfU: (maxU - minU) / 2, halfV: (maxV - minV) / 2 };
+}
+
+function roofPlanes(shape: RoofData["shape"], h: number, U: number, V: number): Plane[] {
+  const across: Plane[] = [[h, 0, -h / V], [h, 0, h / V]];
+  switch (shape) {
+    case "gabled":
+      return across;
+    case "hipped":
+      // Hip ends share the side pitch
+      return [...across, [(h * U) / V, -h / V, 0], [(h * U) / V, h / V, 0]];
+    case "pyramidal":
+      return [...across, [h, -h / U, 0], [h, h / U, 0]];
+    case "skillion":
+      // High along -v, down to the eaves along +v
+      return [[h / 2, 0, -h / (2 * V)]];
+    default:
+      return [];
+  }
+}
+
+function planeZ([c, cu, cv]: Plane, [u, v]: Point2D): number {
+  return c + cu * u + cv * v;
+}
+
+/** Clip a convex polygon to the half-plane where d0 + du·u + dv·v ≤ 0. */
+function clipConvex(poly: Polygon, [d0, du, dv]: Plane): Polygon {
+  const side = ([u, v]: Point2D) => d0 + du * u + dv * v;
+  const out: Polygon = [];
+  for (let i = 0; i < poly.length; i++) {
+    const p = poly[i];
+    const q = poly[(i + 1) % poly.length];
+    const sp = side(p);
+    const sq = side(q);
+    if (sp <= 0) out.push(p);
+    if ((sp < 0 && sq > 0) || (sp > 0 && sq < 0)) {
+      const t = sp / (sp - sq);
+      out.push([p[0] + (q[0] - p[0]) * t, p[1] + (q[1] - p[1]) * t]);
+    }
+  }
+  return out;
+}
+
+function signedArea(ring: Polygon): number {
+  let area = 0;
+  for (let i = 0; i < ring.length; i++) {
+    const [x0, y0] = ring[i];
+    const [x1, y1] = ring[(i + 1) % ring.length];
+    area += x0 * y1 - x1 * y0;
+  }
+  return area / 2;
+}
+
+/**
+ * Collects triangles, sharing vertices that land on the same spot so
+ * the solid closes up where faces meet (eaves, ridges, apexes).
+ */
+function meshBuilder(frame: RoofFrame, baseZ: number) {
+  const positions: number[] = [];
+  const indices: number[] = [];
+  const lookup = new Map<string, number>();
+
+  const vertex = (local: Point2D, z: number): number => {
+    const [x, y] = toWorld(local, frame);
+    const zz = baseZ + z;
+    // Math.round rather than toFixed, which keeps the sign of -0
+    const key = `${Math.round(x * 1e5)},${Math.round(y * 1e5)},${Math.round(zz * 1e5)}`;
+    let index = lookup.get(key);
+    if (index === undefined) {
+      index = positions.length / 3;
+      positions.push(x, y, zz);
+      lookup.set(key, index);
+    }
+    return index;
+  };
+
+  const triangle = (a: number, b: number, c: number) => {
+    if (a !== b && b !== c && a !== c) indices.push(a, b, c);
+  };
+
+  /** Fan out a convex polygon, lifting each point by z(p). */
+  const face = (poly: Polygon, z: (p: Point2D) => number, facingUp: boolean) => {
+    if (poly.length < 3) return;
+    const ring = signedArea(poly) > 0 === facingUp ? poly : [...poly].reverse();
+    const ids = ring.map((p) => vertex(p, z(p)));
+    for (let k = 1; k < ids.length - 1; k++) triangle(ids[0], ids[k], ids[k + 1]);
+  };
+
+  const build = (): IndexedMesh | null =>
+    indices.length === 0
+      ? null
+      : { positions: new Float32Array(positions), indices: new Uint32Array(indices) };
+
+  return { vertex, triangle, face, build };
+}
+
+/** Earcut a polygon with holes into triangles. */
+function triangulate({ polygon, holes = [] }: PolygonWithHoles): Polygon[] {
+  const contour = polygon.map(([u, v]) => new THREE.Vector2(u, v));
+  const holeRings = holes.map((h) => h.map(([u, v]) => new THREE.Vector2(u, v)));
+  // triangulateShape may drop repeated end points, so index the rings afterwards
+  const faces = THREE.ShapeUtils.triangulateShape(contour, holeRings);
+  const points = [contour, ...holeRings].flat();
+  return faces.map((f) => f.map((i): Point2D => [points[i].x, points[i].y]));
+}
+
+function slopedRoof(footprint: PolygonWithHoles, roof: RoofData, frame: RoofFrame, baseZ: number) {
+  const { halfU: U, halfV: V } = frame;
+  if (U <= 0 || V <= 0) return null;
+  const planes = roofPlanes(roof.shape, roof.heightMm, U, V);
+  const z = (p: Point2D) => Math.max(0, Math.min(...planes.map((pl) => planeZ(pl, p))));
+  const diff = (i: number, j: number): Plane => [
+    planes[i][0] - planes[j][0],
+    planes[i][1] - planes[j][1],
+    planes[i][2] - planes[j][2],
+  ];
+  // The part of a convex polygon where plane i is the lowest
+  const toCell = (poly: Polygon, i: number) =>
+    planes.reduce<Polygon>((cell, _, j) => (i === j || cell.length < 3 ? cell : clipConvex(cell, diff(i, j))), poly);
+
+  const local: PolygonWithHoles = {
+    polygon: footprint.polygon.map((p) => toLocal(p, frame)),
+    holes: footprint.holes?.map((h) => h.map((p) => toLocal(p, frame))),
+  };
+  const tris = triangulate(local).map((t) => (signedArea(t) > 0 ? t : [...t].reverse()));
+
+  // Top and underside share the same pieces, so their vertices line up
+  const mesh = meshBuilder(frame, baseZ);
+  for (const tri of tris) {
+    planes.forEach((plane, i) => {
+      const piece = toCell(tri, i);
+      mesh.face(piece, (p) => Math.max(0, planeZ(plane, p)), true);
+      mesh.face(piece, () => 0, false);
+    });
+  }
+
+  // Walls (gable ends, the skillion's high side) run along the outline:
+  // the edges only one triangle uses, already wound with the inside on
+  // their left. Each bends wherever it crosses a crease in the roof.
+  const key = ([u, v]: Point2D) => `${u},${v}`;
+  const edges = new Set(tris.flatMap((t) => t.map((p, k) => `${key(p)}|${key(t[(k + 1) % 3])}`)));
+  for (const t of tris) {
+    for (let k = 0; k < 3; k++) {
+      const p = t[k];
+      const q = t[(k + 1) % 3];
+      if (edges.has(`${key(q)}|${key(p)}`)) continue;
+
+      const ts: number[] = [];
+      for (let i = 0; i < planes.length; i++) {
+        for (let j = i + 1; j < planes.length; j++) {
+          const d = diff(i, j);
+          const sp = planeZ(d, p);
+          const sq = planeZ(d, q);
+          if (!((sp < 0 && sq > 0) || (sp > 0 && sq < 0))) continue;
+          const t = sp / (sp - sq);
+          const x: Point2D = [p[0] + (q[0] - p[0]) * t, p[1] + (q[1] - p[1]) * t];
+          // Only where the two planes meet on the roof surface, not beneath it
+          if (Math.abs(planeZ(planes[i], x) - z(x)) < 1e-9) ts.push(t);
+        }
+      }
+      const points = [p, ...ts.sort((a, b) => a - b).map((t): Point2D => [p[0] + (q[0] - p[0]) * t, p[1] + (q[1] - p[1]) * t]), q];
+
+      for (let n = 0; n < points.length - 1; n++) {
+        const a = points[n];
+        const b = points[n + 1];
+        const ba = mesh.vertex(a, 0);
+        const bb = mesh.vertex(b, 0);
+        const tb = mesh.vertex(b, z(b));
+        mesh.triangle(ba, bb, tb);
+        mesh.triangle(ba, tb, mesh.vertex(a, z(a)));
+      }
+    }
+  }
+  return mesh.build();
+}
+
+function roundRoof(roof: RoofData, frame: RoofFrame, baseZ: number) {
+  const profile = roof.shape === "onion" ? ONION_PROFILE : DOME_PROFILE;
+  const mesh = meshBuilder(frame, baseZ);
+  const rings = profile.map(([r, h]) =>
+    Array.from({ length: ROUND_SEGMENTS }, (_, s) => {
+      const a = (s / ROUND_SEGMENTS) * Math.PI * 2;
+      return mesh.vertex([r * frame.halfU * Math.cos(a), r * frame.halfV * Math.sin(a)], h * roof.heightMm);
+    })
+  );
+
+  const centre = mesh.vertex([0, 0], 0);
+  for (let s = 0; s < ROUND_SEGMENTS; s++) {
+    const next = (s + 1) % ROUND_SEGMENTS;
+    mesh.triangle(centre, rings[0][next], rings[0][s]);
+    for (let k = 0; k < rings.length - 1; k++) {
+      mesh.triangle(rings[k][s], rings[k][next], rings[k + 1][next]);
+      mesh.triangle(rings[k][s], rings[k + 1][next], rings[k + 1][s]);
+    }
+  }
+  return mesh.build();
+}
+
+/**
+ * A closed roof solid for a building footprint, with its underside at
+ * baseZ (the top of the walls). Returns null if the footprint is too
+ * degenerate to carry a roof, leaving the building flat-topped.
+ */
+export function roofMesh(footprint: PolygonWithHoles, roof: RoofData, baseZ: number): IndexedMesh | null {
+  if (footprint.polygon.length < 3 || !(roof.heightMm > 0)) return null;
+  const frame = roofFrame(footprint.polygon, roof);
+  if (roof.shape === "dome" || roof.shape === "onion") return roundRoof(roof, frame, baseZ);
+  try {
+    return slopedRoof(footprint, roof, frame, baseZ);
+  } catch (err) {
+    // Triangulation and the half-plane clipping run on raw OSM footprints; one
+    // malformed building (NaN corners, collapsed hole rings) shouldn't cost the
+    // whole model — keep the flat top
+    console.warn("Roof construction failed, leaving the building flat:", err);
+    return null;
+  }
+}
@@ -0,0 +1,106 @@
+import type { SceneData, Selection } from "./types";
+import { parseElements, type OsmElement, type ParseStage } from "./osmParser";
+import { readDataFile, type DataFileFormat } from "./osmFileImport";
+import { buildPreviewBuffers, previewTransferables, type PreviewBuffers } from "./modelGeometry";
+import { checkPrintability, fixPrintability, type PrintabilityReport } from "./printability";
+
+/*
+ * Web Worker that turns Overpass responses (or imported data files)
+ * into scenes, and scenes into preview meshes and print checks, so
+ * dense selections don't freeze the page. Talk to it through
+ * sceneWorkerClient.ts rather than posting messages directly.
+ */
+
+/** Work the worker does, one reply per job */
+export type SceneWorkerJob =
+  | { type: "parse"; json: ArrayBuffer; selection: Selection }
+  | { type: "import"; data: ArrayBuffer; format: DataFileFormat; selection: Selection }
+  | { type: "preview"; sceneData: SceneData }
+  | { type: "printability"; sceneData: SceneData; autoFix: boolean };
+
+export type SceneWorkerRequest = (SceneWorkerJob & { id: number }) | { type: "cancel"; id: number };
+
+export type SceneWorkerResponse =
+  | { type: "stage"; id: number; stage: ParseStage }
+  | { type: "scene"; id: number; scene: SceneData | null }
+  /** A parsed Overpass response, with its remark if the server noted an error (e.g. a timeout cutting it short) */
+  | { type: "parsed"; id: number; scene: SceneData | null; remark: string | null }
+  | { type: "preview"; id: number; buffers: PreviewBuffers }
+  | { type: "printability"; id: number; report: PrintabilityReport; fixed: SceneData | null }
+  | { type: "error"; id: number; message: string };
+
+/** Thrown inside a job once the client has cancelled it */
+class Cancelled extends Error {}
+
+/** Jobs cancelled before they finished; checked between stages */
+const cancelled = new Set<number>();
+
+function reply(response: SceneWorkerResponse, transfer: Transferable[] = []) {
+  self.postMessage(response, { transfer });
+}
+
+/** Let queued messages (cancellations above all) through, then stop if this job was cancelled */
+async function checkpoint(id: number) {
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  if (cancelled.has(id)) throw new Cancelled();
+}
+
+/** Report stages to the client, stopping at each if the job was cancelled */
+function stageReporter(id: number) {
+  return async (s: ParseStage) => {
+    await checkpoint(id);
+    reply({ type: "stage", id, stage: s });
+  };
+}
+
+async function parse(id: number, json: ArrayBuffer, selection: Selection) {
+  const stage = stageReporter(id);
+  await stage("reading");
+  const data = JSON.parse(new TextDecoder().decode(json));
+  const elements: OsmElement[] = data.elements ?? [];
+  const scene = await parseElements(elements, selection, stage);
+  await checkpoint(id);
+  reply({ type: "parsed", id, scene, remark: typeof data.remark === "string" ? data.remark : null });
+}
+
+async function importFile(id: number, data: ArrayBuffer, format: DataFileFormat, selection: Selection) {
+  const stage = stageReporter(id);
+  await stage("reading");
+  const elements = readDataFile(data, format);
+  const scene = await parseElements(elements, selection, stage);
+  await checkpoint(id);
+  reply({ type: "scene", id, scene });
+}
+
+async function preview(id: number, sceneData: SceneData) {
+  await checkpoint(id);
+  const buffers = buildPreviewBuffers(sceneData);
+  reply({ type: "preview", id, buffers }, previewTransferables(buffers));
+}
+
+async function printability(id: number, sceneData: SceneData, autoFix: boolean) {
+  await checkpoint(id);
+  const report = checkPrintability(sceneData);
+  await checkpoint(id);
+  const fixed = autoFix ? fixPrintability(sceneData, report) : null;
+  reply({ type: "printability", id, report, fixed });
+}
+
+self.onmessage = async ({ data }: MessageEvent<SceneWorkerRequest>) => {
+  if (data.type === "cancel") {
+    cancelled.add(data.id);
+    return;
+  }
+  try {
+    if (data.type === "parse") await parse(data.id, data.json, data.selection);
+    else if (data.type === "import") await importFile(data.id, data.data, data.format, data.selection);
+    else if (data.type === "printability") await printability(data.id, data.sceneData, data.autoFix);
+    else await preview(data.id, data.sceneData);
+  } catch (err) {
+    if (!(err instanceof Cancelled)) {
+      reply({ type: "error", id: data.id, message: err instanceof Error ? err.message : String(err) });
+    }
+  } finally {
+    cancelled.delete(data.id);
+  }
+};
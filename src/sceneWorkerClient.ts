@@ -0,0 +1,162 @@
+import type { SceneData, Selection } from "./types";
+import type { ParseStage } from "./osmParser";
+import type { PreviewBuffers } from "./modelGeometry";
+import type { PrintabilityReport } from "./printability";
+import type { DataFileFormat } from "./osmFileImport";
+import type { SceneWorkerJob, SceneWorkerRequest, SceneWorkerResponse } from "./sceneWorker";
+
+/*
+ * Main-thread side of the scene worker: one shared worker, with each
+ * call a job that resolves with its result and can be cancelled through
+ * an AbortSignal.
+ */
+
+/** How a job resolves, keyed by the worker reply it expects */
+type JobResolver =
+  | { reply: "parsed"; resolve: (value: ParsedResponse) => void }
+  | { reply: "scene"; resolve: (value: SceneData | null) => void }
+  | { reply: "preview"; resolve: (value: PreviewBuffers) => void }
+  | { reply: "printability"; resolve: (value: PrintCheck) => void };
+
+type Job = JobResolver & {
+  reject: (err: Error) => void;
+  onStage?: (stage: ParseStage) => void;
+};
+
+let worker: Worker | null = null;
+let nextId = 1;
+const jobs = new Map<number, Job>();
+
+function abortError(): DOMException {
+  return new DOMException("The scene worker job was cancelled", "AbortError");
+}
+
+function getWorker(): Worker {
+  if (worker) return worker;
+  const w = new Worker(new URL("./sceneWorker.ts", import.meta.url), { type: "module" });
+  w.onmessage = ({ data }: MessageEvent<SceneWorkerResponse>) => {
+    const job = jobs.get(data.id);
+    if (!job) return;
+    if (data.type === "stage") {
+      job.onStage?.(data.stage);
+      return;
+    }
+    jobs.delete(data.id);
+    if (data.type === "error") job.reject(new Error(data.message));
+    else if (data.type === "parsed" && job.reply === "parsed") job.resolve({ scene: data.scene, remark: data.remark });
+    else if (data.type === "scene" && job.reply === "scene") job.resolve(data.scene);
+    else if (data.type === "preview" && job.reply === "preview") job.resolve(data.buffers);
+    else if (data.type === "printability" && job.reply === "printability") {
+      job.resolve({ report: data.report, fixed: data.fixed });
+    } else job.reject(new Error(`Scene worker sent a ${data.type} reply to a job expecting ${job.reply}`));
+  };
+  w.onerror = (event) => {
+    // A crashed worker takes its jobs with it; the next call starts a fresh one
+    event.preventDefault();
+    const err = new Error(event.message || "Scene worker crashed");
+    for (const job of jobs.values()) job.reject(err);
+    jobs.clear();
+    w.terminate();
+    if (worker === w) worker = null;
+  };
+  worker = w;
+  return w;
+}
+
+/**
+ * Post a job to the worker. `resolver` pairs the promise's resolve with
+ * the reply the job expects, so a mismatched reply rejects instead of
+ * resolving with the wrong shape.
+ */
+function run<T>(
+  job: SceneWorkerJob,
+  transfer: Transferable[],
+  resolver: (resolve: (value: T) => void) => JobResolver,
+  signal?: AbortSignal,
+  onStage?: (stage: ParseStage) => void
+): Promise<T> {
+  if (signal?.aborted) return Promise.reject(abortError());
+  const id = nextId++;
+  const w = getWorker();
+  return new Promise<T>((resolve, reject) => {
+    jobs.set(id, { ...resolver(resolve), reject, onStage });
+    signal?.addEventListener(
+      "abort",
+      () => {
+        if (!jobs.delete(id)) return;
+        const cancel: SceneWorkerRequest = { type: "cancel", id };
+        w.postMessage(cancel);
+        reject(abortError());
+      },
+      { once: true }
+    );
+    const request: SceneWorkerRequest = { ...job, id };
+    w.postMessage(request, transfer);
+  });
+}
+
+/** A parsed Overpass response: null scene when it has no usable features */
+export interface ParsedResponse {
+  scene: SceneData | null;
+  /** Overpass's remark, set when the query hit an error (a timeout or out of memory) and the data may be partial */
+  remark: string | null;
+}
+
+/**
+ * Parse an Overpass JSON response into a scene in the worker. The buffer
+ * is transferred, so it's unusable here afterwards.
+ */
+export function parseInWorker(
+  json: ArrayBuffer,
+  selection: Selection,
+  { signal, onStage }: { signal?: AbortSignal; onStage?: (stage: ParseStage) => void } = {}
+): Promise<ParsedResponse> {
+  return run<ParsedResponse>(
+    { type: "parse", json, selection },
+    [json],
+    (resolve) => ({ reply: "parsed", resolve }),
+    signal,
+    onStage
+  );
+}
+
+/**
+ * Read a local map data file into a scene in the worker, the same way as
+ * an Overpass response. The buffer is transferred. Rejects when the file
+ * can't be read; resolves null when nothing in it falls inside the frame.
+ */
+export function importInWorker(
+  data: ArrayBuffer,
+  format: DataFileFormat,
+  selection: Selection,
+  { signal, onStage }: { signal?: AbortSignal; onStage?: (stage: ParseStage) => void } = {}
+): Promise<SceneData | null> {
+  return run<SceneData | null>(
+    { type: "import", data, format, selection },
+    [data],
+    (resolve) => ({ reply: "scene", resolve }),
+    signal,
+    onStage
+  );
+}
+
+/** Build a scene's preview meshes in the worker. */
+export function buildPreviewInWorker(sceneData: SceneData, signal?: AbortSignal): Promise<PreviewBuffers> {
+  return run<PreviewBuffers>({ type: "preview", sceneData }, [], (resolve) => ({ reply: "preview", resolve }), signal);
+}
+
+/** A scene's print check, and the scene with its problems fixed when auto-fix is on */
+export interface PrintCheck {
+  report: PrintabilityReport;
+  fixed: SceneData | null;
+}
+
+/** Run the printability check (and auto-fix, if asked) in the worker. */
+export function checkPrintabilityInWorker(sceneData: SceneData, autoFix: boolean, signal?: AbortSignal): Promise<PrintCheck> {
+  return run<PrintCheck>(
+    { type: "printability", sceneData, autoFix },
+    [],
+    (resolve) => ({ reply: "printability", resolve }),
+    signal
+  );
+}
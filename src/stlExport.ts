@@ -0,0 +1,15 @@
+import * as THREE from "three";
+import { STLExporter } from "three/examples/jsm/exporters/STLExporter.js";
+import type { PrintMesh } from "./printMesh";
+
+/**
+ * Write the fused print mesh as a single binary STL in millimetres (Z up).
+ *
+ * The mesh comes from the same layer definitions as the 3D preview, so
+ * the sliced print matches what the customer saw.
+ */
+export function printMeshToStl(printMesh: PrintMesh): Blob {
+  const mesh = new THREE.Mesh(printMesh.solid);
+  const data = new STLExporter().parse(mesh, { binary: true });
+  return new Blob([data.buffer as ArrayBuffer], { type: "model/stl" });
+}
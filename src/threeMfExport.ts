@@ -0,0 +1,82 @@
+import * as THREE from "three";
+import { strToU8, zipSync } from "fflate";
+import type { PrintMesh } from "./printMesh";
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="model" ContentType="application/vnd.ms-package.3dmanufacturing-3dmodel+xml"/>
+</Types>`;
+
+const RELS = `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Target="/3D/3dmodel.model" Id="rel0" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel"/>
+</Relationships>`;
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** Trim trailing zeros so the XML stays compact (micron precision is plenty). */
+function num(v: number): string {
+  return String(+v.toFixed(4));
+}
+
+/** Serialise one layer as an indexed 3MF <mesh>. */
+function meshXml(geometry: THREE.BufferGeometry): string {
+  const pos = geometry.getAttribute("position");
+  const index = geometry.getIndex()!;
+  const out: string[] = ["<mesh><vertices>"];
+  for (let i = 0; i < pos.count; i++) {
+    out.push(`<vertex x="${num(pos.getX(i))}" y="${num(pos.getY(i))}" z="${num(pos.getZ(i))}"/>`);
+  }
+  out.push("</vertices><triangles>");
+  for (let i = 0; i < index.count; i += 3) {
+    out.push(`<triangle v1="${index.getX(i)}" v2="${index.getX(i + 1)}" v3="${index.getX(i + 2)}"/>`);
+  }
+  out.push("</triangles></mesh>");
+  return out.join("");
+}
+
+/**
+ * Write the print mesh as a multi-material 3MF package.
+ *
+ * Each layer (base plate, frame, greenery, water, roads, railways,
+ * trees, buildings) becomes its own named object with a display colour matching
+ * the preview, all placed in a single build so a slicer can map each one
+ * to a different filament without splitting meshes by hand.
+ */
+export function printMeshTo3mf({ layers }: PrintMesh): Blob {
+  const materials = layers
+    .map((l) => `<base name="${escapeXml(l.name)}" displaycolor="${l.color.toUpperCase()}"/>`)
+    .join("");
+
+  // Resource id 1 is the material group; objects follow from 2
+  const objects = layers.map(
+    (l, i) =>
+      `<object id="${i + 2}" name="${escapeXml(l.name)}" type="model" pid="1" pindex="${i}">` +
+      meshXml(l.geometry) +
+      `</object>`
+  );
+  const items = layers.map((_, i) => `<item objectid="${i + 2}"/>`).join("");
+
+  const model =
+    `<?xml version="1.0" encoding="UTF-8"?>\n` +
+    `<model unit="millimeter" xml:lang="en-GB" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02">` +
+    `<metadata name="Application">City to Print</metadata>` +
+    `<resources><basematerials id="1">${materials}</basematerials>${objects.join("")}</resources>` +
+    `<build>${items}</build>` +
+    `</model>`;
+
+  const zipped = zipSync({
+    "[Content_Types].xml": strToU8(CONTENT_TYPES),
+    "_rels/.rels": strToU8(RELS),
+    "3D/3dmodel.model": strToU8(model),
+  });
+
+  return new Blob([zipped], { type: "model/3mf" });
+}
@@ -0,0 +1,82 @@
+import type { TreeData } from "./types";
+import type { IndexedMesh } from "./modelGeometry";
+
+/*
+ * Miniature trees: each one a small surface of revolution around its
+ * trunk — a cylinder with a ball on top for broadleaved trees, a cone on
+ * a stub of trunk for conifers. Kept deliberately coarse, since a model
+ * can carry over a thousand of them.
+ */
+
+/** Segments around each tree */
+const TREE_SEGMENTS = 8;
+
+/** Rings making up the crown of a lollipop tree, from where it meets the trunk to the top */
+const CROWN_RINGS = 5;
+
+/** Thinnest trunk that survives slicing (mm) */
+const MIN_TRUNK_RADIUS_MM = 0.4;
+
+function trunkRadius(crownRadiusMm: number): number {
+  return Math.min(Math.max(MIN_TRUNK_RADIUS_MM, crownRadiusMm * 0.2), crownRadiusMm * 0.45);
+}
+
+/** Profile as [radius, height] pairs in mm, from the ground up */
+function treeProfile({ heightMm, crownRadiusMm, shape }: TreeData): [number, number][] {
+  if (shape === "cone") {
+    const trunkTop = heightMm * 0.2;
+    const trunk = trunkRadius(crownRadiusMm);
+    return [
+      [0, 0],
+      [trunk, 0],
+      [trunk, trunkTop],
+      [crownRadiusMm, trunkTop],
+      [0, heightMm],
+    ];
+  }
+
+  // Leave at least a fifth of the height for the trunk
+  const crown = Math.min(crownRadiusMm, heightMm * 0.4);
+  const trunk = trunkRadius(crown);
+  const centre = heightMm - crown;
+  // The crown starts where the ball is as wide as the trunk
+  const start = -Math.acos(trunk / crown);
+  const ball = Array.from({ length: CROWN_RINGS }, (_, i): [number, number] => {
+    const a = start + (i / CROWN_RINGS) * (Math.PI / 2 - start);
+    return [crown * Math.cos(a), centre + crown * Math.sin(a)];
+  });
+  return [[0, 0], [trunk, 0], ...ball, [0, heightMm]];
+}
+
+/** A closed tree solid standing on z = baseZ at the tree's position. */
+export function treeMesh(tree: TreeData, baseZ: number): IndexedMesh {
+  const [x, y] = tree.position;
+  const positions: number[] = [];
+  const indices: number[] = [];
+
+  // A zero radius is a pole: one vertex shared by the whole ring
+  const rings = treeProfile(tree).map(([r, z]) => {
+    if (r === 0) {
+      positions.push(x, y, baseZ + z);
+      return new Array<number>(TREE_SEGMENTS).fill(positions.length / 3 - 1);
+    }
+    return Array.from({ length: TREE_SEGMENTS }, (_, s) => {
+      const a = (s / TREE_SEGMENTS) * Math.PI * 2;
+      positions.push(x + r * Math.cos(a), y + r * Math.sin(a), baseZ + z);
+      return positions.length / 3 - 1;
+    });
+  });
+
+  const triangle = (a: number, b: number, c: number) => {
+    if (a !== b && b !== c && a !== c) indices.push(a, b, c);
+  };
+  for (let s = 0; s < TREE_SEGMENTS; s++) {
+    const next = (s + 1) % TREE_SEGMENTS;
+    for (let k = 0; k < rings.length - 1; k++) {
+      triangle(rings[k][s], rings[k][next], rings[k + 1][next]);
+      triangle(rings[k][s], rings[k + 1][next], rings[k + 1][s]);
+    }
+  }
+
+  return { positions: new Float32Array(positions), indices: new Uint32Array(indices) };
+}
@@ -1,16 +1,89 @@
 /** Geographic bounding box: [south, west, north, east] */
 export type Bounds = [number, number, number, number];
 
+/** Width-to-height format of a rectangular selection frame */
+export type ModelAspect = "square" | "4:3" | "2:1";
+
+/** Outline of the printed model: the plain frame, or a shape cut out of it */
+export type SelectionShape = "rectangle" | "circle" | "hexagon" | "polygon";
+
+/**
+ * How the ground is flattened into model space: a transverse Mercator
+ * centred on the selection ("local"), or the UTM zone it sits in
+ */
+export type ProjectionKind = "local" | "utm";
+
+/**
+ * The area to model: the selection frame as drawn on the map, an
+ * oriented rectangle on the ground. Model X runs along its width and
+ * model Y along its height. Shaped selections carry their outline too,
+ * with the frame fitted snugly around it.
+ */
+export interface Selection {
+  /** [lat, lon] of the frame centre */
+  center: [number, number];
+  /** Real-world size of the frame along its own axes, in metres */
+  widthM: number;
+  heightM: number;
+  /** Map bearing: degrees clockwise from north to the frame's top edge direction */
+  bearing: number;
+  /** Unset = "rectangle", the whole frame */
+  shape?: SelectionShape;
+  /** [lat, lon] ring of a shaped selection; everything outside it is cut away */
+  outline?: [number, number][];
+  /** Printed length of the model's longest side in mm; unset = MODEL_SIZE_MM */
+  sizeMm?: number;
+  /** How the ground is flattened into model space; unset = DEFAULT_PROJECTION */
+  projection?: ProjectionKind;
+}
+
 /** A 2D point in local model coordinates (millimetres) */
 export type Point2D = [number, number];
 
 /** A polygon is an array of 2D points (closed ring) */
 export type Polygon = Point2D[];
 
+/** A polygon outline with optional inner rings (holes) */
+export interface PolygonWithHoles {
+  polygon: Polygon;
+  holes?: Polygon[];
+}
+
+/** Roof shapes we can model; anything else in OSM is treated as flat */
+export type RoofShape = "gabled" | "hipped" | "pyramidal" | "skillion" | "dome" | "onion";
+
+export interface RoofData {
+  shape: RoofShape;
+  /** From the top of the walls to the highest point, in model mm */
+  heightMm: number;
+  /**
+   * Compass direction the roof slopes face (downhill), in degrees
+   * clockwise from model +Y. Unset = derived from the footprint:
+   * ridges run along its long side, skillions slope across it.
+   */
+  directionDeg?: number;
+  /** Run the ridge across the footprint's long side instead of along it */
+  across?: boolean;
+}
+
 export interface BuildingData {
   polygon: Polygon;
-  /** Height in model-space millimetres */
+  /** Courtyards and other inner rings */
+  holes?: Polygon[];
+  /**
+   * Height of the wall tops above the ground in model-space millimetres —
+   * any roof sits on top. True to scale as parsed; mapBuildingHeights
+   * turns it into the printed height.
+   */
   heightMm: number;
+  /**
+   * Height of the underside above the ground (OSM min_height /
+   * building:min_level), for parts raised over podiums and arcades
+   */
+  minHeightMm?: number;
+  roof?: RoofData;
+  /** How many mapped buildings this footprint stands for once touching ones are merged; unset = 1 */
+  count?: number;
 }
 
 export interface WaterData {
@@ -19,19 +92,121 @@ export interface WaterData {
   holes?: Polygon[];
 }
 
+/** Parks, woods, cemeteries, pitches and other green space */
+export interface GreeneryData {
+  polygon: Polygon;
+  holes?: Polygon[];
+}
+
+/** A single tree, from a natural=tree node or sampled along a tree_row */
+export interface TreeData {
+  position: Point2D;
+  /** Overall height in model mm */
+  heightMm: number;
+  /** Crown radius in model mm */
+  crownRadiusMm: number;
+  /** Conifers print as cones, everything else as a trunk with a ball crown */
+  shape: "cone" | "lollipop";
+}
+
 export interface RoadData {
-  /** Buffered polygon representing the road strip */
+  /** Buffered outline of the road strip, or of a merged network of one kind */
   polygon: Polygon;
+  /** Blocks enclosed by a merged network (or by a road that loops back on itself) */
+  holes?: Polygon[];
   /** Road classification for width/styling: major, minor, path, railway */
   kind: "major" | "minor" | "path" | "railway";
+  /** Carried on a bridge: raised as a deck over whatever it crosses */
+  bridge?: boolean;
+  /** OSM layer tag; higher bridges clear lower ones */
+  layer?: number;
+  /** Projected centreline of a bridge, unclipped — the deck ramps up from its ends */
+  centreline?: Point2D[];
+}
+
+/** How true-to-scale building heights become printed heights */
+export interface HeightMapping {
+  /** Vertical exaggeration on top of the horizontal model scale */
+  exaggeration: number;
+  /** Shortest a building may print, in mm (0 = no minimum) */
+  minHeightMm: number;
+  /**
+   * "linear" cuts anything taller than the height limit off at it;
+   * "sqrt" and "log" squeeze the upper half of the skyline instead, so
+   * the tallest building just reaches the limit and towers stay distinct
+   */
+  curve: "linear" | "sqrt" | "log";
+}
+
+/** How the previewed model was styled, sent with the order so it prints the same */
+export interface OrderOptions {
+  heightMapping: HeightMapping;
+  /** Roads and water engraved into the base plate */
+  relief: boolean;
+  bridgePiers: boolean;
+  /** Vertical exaggeration of the terrain; null when the model has none */
+  terrainExaggeration: number | null;
+  /** Grid the print is split into; 1 × 1 = one plate */
+  plates: PlateGrid;
+  /** Whether the print check's fixes were applied to the preview */
+  autoFix: boolean;
+  /** Imported file the map data came from; null when it's from OpenStreetMap */
+  dataFile: string | null;
+  /** When the OpenStreetMap data was fetched; null for a file or generated preview data */
+  dataFetchedAt: number | null;
+}
+
+/** Columns and rows of separately printed plates that assemble into the model */
+export interface PlateGrid {
+  cols: number;
+  rows: number;
+}
+
+/** Engraving depths in mm below the top of the base plate */
+export interface ReliefSettings {
+  roads: Record<RoadData["kind"], number>;
+  water: number;
+}
+
+/**
+ * Ground heightfield covering the model, sampled on a regular grid from
+ * (-modelWidthMm/2, -modelDepthMm/2) to (modelWidthMm/2, modelDepthMm/2).
+ */
+export interface TerrainData {
+  /** Samples along X */
+  cols: number;
+  /** Samples along Y */
+  rows: number;
+  /** Height above the lowest sample in model mm, row-major from -Y; before exaggeration */
+  heightsMm: number[];
+  /** Vertical exaggeration applied on top of the horizontal model scale */
+  exaggeration: number;
 }
 
 export interface SceneData {
   buildings: BuildingData[];
   water: WaterData[];
   roads: RoadData[];
-  /** Width of the model in mm (≤200) */
+  greenery: GreeneryData[];
+  trees: TreeData[];
+  /** Width of the model in mm (≤ the selection's print size) */
   modelWidthMm: number;
-  /** Depth of the model in mm (≤200) */
+  /** Depth of the model in mm (≤ the selection's print size) */
   modelDepthMm: number;
+  /**
+   * Projected outline of a shaped selection, counter-clockwise. The base
+   * plate and frame follow it; unset = the full model rectangle.
+   */
+  outline?: Polygon;
+  /**
+   * When set, roads and water are cut into the base plate as channels
+   * instead of sitting on top of it.
+   */
+  relief?: ReliefSettings;
+  /** Split the print into a grid of plates keyed together; unset = one plate */
+  plates?: PlateGrid;
+  /** Stand bridge decks on piers rather than leaving them spanning freely */
+  bridgePiers?: boolean;
+  /** Real terrain from DEM tiles; absent means a flat base plate */
+  terrain?: TerrainData;
 }
@@ -0,0 +1,49 @@
+import { useEffect, useState } from "react";
+import type { SceneData } from "./types";
+import { checkPrintability, fixPrintability, type PrintabilityReport } from "./printability";
+import { checkPrintabilityInWorker, type PrintCheck } from "./sceneWorkerClient";
+
+/** Wait this long after the last styling change before checking (ms), so dragging a slider checks once */
+const CHECK_DELAY_MS = 250;
+
+interface CheckedScene extends PrintCheck {
+  scene: SceneData;
+  autoFix: boolean;
+}
+
+/**
+ * Printability report for the styled scene, and the scene to show and
+ * export: fixed when auto-fix is on. The check runs in the scene worker
+ * (overhangs are polygon booleans per raised part), once the styling
+ * settles. Until it's back the unfixed scene is shown, and the previous
+ * report stays up rather than flickering away.
+ */
+export function usePrintCheck(scene: SceneData | null, autoFix: boolean) {
+  const [checked, setChecked] = useState<CheckedScene | null>(null);
+
+  useEffect(() => {
+    if (!scene) return;
+    const controller = new AbortController();
+    const { signal } = controller;
+    const timer = setTimeout(() => {
+      checkPrintabilityInWorker(scene, autoFix, signal)
+        .catch((err): PrintCheck | null => {
+          if (signal.aborted) return null;
+          console.warn("Scene worker failed, checking printability here instead:", err);
+          const report = checkPrintability(scene);
+          return { report, fixed: autoFix ? fixPrintability(scene, report) : null };
+        })
+        .then((check) => {
+          if (check && !signal.aborted) setChecked({ ...check, scene, autoFix });
+        });
+    }, CHECK_DELAY_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [scene, autoFix]);
+
+  const current = checked?.scene === scene && checked.autoFix === autoFix ? checked : null;
+  const report: PrintabilityReport | null = scene ? (checked?.report ?? null) : null;
+  return { report, modelScene: current?.fixed ?? scene };
+}
@@ -1,7 +1,11 @@
 /// <reference types="vite/client" />
 
 interface ImportMetaEnv {
-  readonly VITE_MIN_ZOOM_FOR_GENERATE?: string;
+  readonly VITE_MAX_SELECTION_KM?: string;
+  readonly VITE_DEM_TILE_URL?: string;
+  readonly VITE_DEM_EXAGGERATION?: string;
+  readonly VITE_PROJECTION?: string;
+  readonly VITE_OVERPASS_ENDPOINTS?: string;
 }
 
 interface ImportMeta {
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { encodePolyline, outlineMetadata } from "../api/create-checkout-session";
+
+/** Google's decoding, to check what fulfilment will read back */
+function decodePolyline(text: string): [number, number][] {
+  const points: [number, number][] = [];
+  const last = [0, 0];
+  let pos = 0;
+  while (pos < text.length) {
+    for (const i of [0, 1]) {
+      let n = 0;
+      let shift = 0;
+      let byte: number;
+      do {
+        byte = text.charCodeAt(pos++) - 63;
+        n |= (byte & 0x1f) << shift;
+        shift += 5;
+      } while (byte >= 0x20);
+      last[i] += n & 1 ? ~(n >> 1) : n >> 1;
+    }
+    points.push([last[0] / 1e5, last[1] / 1e5]);
+  }
+  return points;
+}
+
+/** A wiggly ring of `count` corners around central London */
+function outline(count: number): [number, number][] {
+  return Array.from({ length: count }, (_, i) => {
+    const angle = (i / count) * 2 * Math.PI;
+    const r = 0.05 * (1 + 0.1 * Math.sin(7 * angle));
+    return [51.5 + r * Math.sin(angle), -0.12 + r * Math.cos(angle)];
+  });
+}
+
+describe("encodePolyline", () => {
+  it("matches Google's reference example", () => {
+    expect(
+      encodePolyline([
+        [38.5, -120.2],
+        [40.7, -120.95],
+        [43.252, -126.453],
+      ])
+    ).toBe("_p~iF~ps|U_ulLnnqC_mqNvxq`@");
+  });
+
+  it("round-trips to 5 decimals", () => {
+    const points = outline(50);
+    decodePolyline(encodePolyline(points)).forEach(([lat, lng], i) => {
+      expect(lat).toBeCloseTo(points[i][0], 5);
+      expect(lng).toBeCloseTo(points[i][1], 5);
+    });
+  });
+});
+
+describe("outlineMetadata", () => {
+  it("keeps a short outline in one value", () => {
+    expect(Object.keys(outlineMetadata(outline(10)))).toEqual(["outline_encoding", "outline_1"]);
+  });
+
+  it("splits a long outline into numbered values within Stripe's limit", () => {
+    const points = outline(300);
+    const metadata = outlineMetadata(points);
+    expect(metadata["outline_encoding"]).toBe("polyline5");
+
+    const chunks = Object.keys(metadata)
+      .filter((key) => key !== "outline_encoding")
+      .map((key, i) => {
+        expect(key).toBe(`outline_${i + 1}`);
+        return metadata[key];
+      });
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) expect(chunk.length).toBeLessThanOrEqual(500);
+    expect(chunks.slice(0, -1).every((chunk) => chunk.length === 500)).toBe(true);
+
+    const decoded = decodePolyline(chunks.join(""));
+    expect(decoded).toHaveLength(points.length);
+    expect(decoded[299][0]).toBeCloseTo(points[299][0], 5);
+  });
+});
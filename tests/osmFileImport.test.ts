@@ -0,0 +1,215 @@
+import { describe, expect, it } from "vitest";
+import { zlibSync } from "fflate";
+import { dataFileFormat, readDataFile } from "../src/osmFileImport";
+import type { OsmNode, OsmRelation, OsmWay } from "../src/osmParser";
+
+// ---- A minimal protobuf / OSM PBF writer, to build test files with ----
+
+/** Varint of a 64-bit value; negatives come out as ten-byte two's complement, as int64 does */
+function varint(value: number | bigint): number[] {
+  let n = BigInt.asUintN(64, BigInt(value));
+  const bytes: number[] = [];
+  while (n >= 0x80n) {
+    bytes.push(Number(n & 0x7fn) | 0x80);
+    n >>= 7n;
+  }
+  bytes.push(Number(n));
+  return bytes;
+}
+
+function zigzag(value: number): bigint {
+  const n = BigInt(value);
+  return n < 0n ? -2n * n - 1n : 2n * n;
+}
+
+const int64Field = (field: number, value: number) => [...varint(field * 8), ...varint(value)];
+const bytesField = (field: number, bytes: ArrayLike<number>) => [...varint(field * 8 + 2), ...varint(bytes.length), ...Array.from(bytes)];
+const packed = (field: number, values: (number | bigint)[]) => bytesField(field, values.flatMap((v) => varint(v)));
+const packedSigned = (field: number, values: number[]) => packed(field, values.map(zigzag));
+
+function deltas(values: number[]): number[] {
+  return values.map((v, i) => v - (i === 0 ? 0 : values[i - 1]));
+}
+
+/** One OSMData fileblock holding `block`, zlib-compressed */
+function pbfFile(block: number[]): ArrayBuffer {
+  const blob = bytesField(3, zlibSync(new Uint8Array(block)));
+  const header = [...bytesField(1, new TextEncoder().encode("OSMData")), ...int64Field(3, blob.length)];
+  const length = new Uint8Array(4);
+  new DataView(length.buffer).setInt32(0, header.length);
+  return new Uint8Array([...length, ...header, ...blob]).buffer;
+}
+
+const STRINGS = ["", "natural", "tree", "building", "yes", "type", "multipolygon", "outer"];
+const sid = (s: string) => STRINGS.indexOf(s);
+
+const stringTable = bytesField(1, STRINGS.flatMap((s) => bytesField(1, new TextEncoder().encode(s))));
+
+// Coordinates are (offset + granularity × value) nanodegrees
+const GRANULARITY = 100;
+const LAT_OFFSET = 500_000_000; // 0.5°
+const LON_OFFSET = -1_000_000_000; // -1°
+const raw = (deg: number, offset: number) => Math.round((deg * 1e9 - offset) / GRANULARITY);
+
+const NODES: [number, number, number][] = [
+  [1, 51.5, -0.1],
+  [2, 51.501, -0.1],
+  [3, 51.501, -0.099],
+];
+
+function pbfFixture(): ArrayBuffer {
+  const dense = [
+    ...packedSigned(1, deltas(NODES.map(([id]) => id))),
+    ...packedSigned(8, deltas(NODES.map(([, lat]) => raw(lat, LAT_OFFSET)))),
+    ...packedSigned(9, deltas(NODES.map(([, , lon]) => raw(lon, LON_OFFSET)))),
+    // Node 1 is a tree; 0 ends each node's key/value run
+    ...packed(10, [sid("natural"), sid("tree"), 0, 0, 0]),
+  ];
+  // Negative ids, as editors give elements not yet uploaded
+  const way = [
+    ...int64Field(1, -5),
+    ...packed(2, [sid("building")]),
+    ...packed(3, [sid("yes")]),
+    ...packedSigned(8, deltas([1, 2, 3, 1])),
+  ];
+  const relation = [
+    ...int64Field(1, -7),
+    ...packed(2, [sid("type"), sid("building")]),
+    ...packed(3, [sid("multipolygon"), sid("yes")]),
+    ...packed(8, [sid("outer")]),
+    ...packedSigned(9, deltas([-5])),
+    ...packed(10, [1]),
+  ];
+  const group = [...bytesField(2, dense), ...bytesField(3, way), ...bytesField(4, relation)];
+  return pbfFile([
+    ...stringTable,
+    ...bytesField(2, group),
+    ...int64Field(17, GRANULARITY),
+    ...int64Field(19, LAT_OFFSET),
+    ...int64Field(20, LON_OFFSET),
+  ]);
+}
+
+describe("dataFileFormat", () => {
+  it("tells formats apart by extension", () => {
+    expect(dataFileFormat("extract.osm.pbf")).toBe("pbf");
+    expect(dataFileFormat("Estate.OSM")).toBe("osm");
+    expect(dataFileFormat("export.geojson")).toBe("geojson");
+    expect(dataFileFormat("photo.jpg")).toBeNull();
+  });
+});
+
+describe("OSM PBF", () => {
+  const elements = readDataFile(pbfFixture(), "pbf");
+  const nodes = elements.filter((el): el is OsmNode => el.type === "node");
+
+  it("reads dense nodes with their delta-coded ids and coordinates", () => {
+    expect(nodes.map((n) => n.id)).toEqual([1, 2, 3]);
+    nodes.forEach((node, i) => {
+      expect(node.lat).toBeCloseTo(NODES[i][1], 7);
+      expect(node.lon).toBeCloseTo(NODES[i][2], 7);
+    });
+  });
+
+  it("applies a negative coordinate offset", () => {
+    // Read as unsigned, the offset would throw every longitude thousands of degrees out
+    expect(nodes[0].lon).toBeCloseTo(-0.1, 7);
+  });
+
+  it("gives tags only to the dense nodes that have them", () => {
+    expect(nodes[0].tags).toEqual({ natural: "tree" });
+    expect(nodes[1].tags).toBeUndefined();
+    expect(nodes[2].tags).toBeUndefined();
+  });
+
+  it("reads negative way and relation ids", () => {
+    const way = elements.find((el): el is OsmWay => el.type === "way");
+    expect(way).toEqual({ type: "way", id: -5, nodes: [1, 2, 3, 1], tags: { building: "yes" } });
+
+    const relation = elements.find((el): el is OsmRelation => el.type === "relation");
+    expect(relation?.id).toBe(-7);
+    expect(relation?.members).toEqual([{ type: "way", ref: -5, role: "outer" }]);
+    expect(relation?.tags).toEqual({ type: "multipolygon", building: "yes" });
+  });
+});
+
+describe("OSM XML", () => {
+  const xml = `<?xml version='1.0' encoding='UTF-8'?>
+<osm version="0.6" generator="JOSM">
+  <node id="1" lat="51.5" lon="-0.1"/>
+  <node id='2' lat='51.501' lon='-0.1'>
+    <tag k="name" v="Fish &amp; Chips &#39;R&#x27; Us &lt;3"/>
+    <tag k="natural" v="tree"/>
+  </node>
+  <node id="3" lat="51.501" lon="-0.099"/>
+  <way id="-10" action="modify">
+    <nd ref="1"/><nd ref="2"/><nd ref="3"/><nd ref="1"/>
+    <tag k="building" v="yes"/>
+  </way>
+  <way id="11" action="delete">
+    <nd ref="1"/><nd ref="3"/>
+    <tag k="building" v="garage"/>
+  </way>
+  <relation id="20">
+    <member type="way" ref="-10" role="outer"/>
+    <tag k="type" v="multipolygon"/>
+  </relation>
+</osm>`;
+  const elements = readDataFile(new TextEncoder().encode(xml).buffer, "osm");
+
+  it("decodes named and numeric character references", () => {
+    const node = elements.find((el) => el.id === 2);
+    expect(node?.tags).toEqual({ name: "Fish & Chips 'R' Us <3", natural: "tree" });
+  });
+
+  it("reads self-closing and single-quoted elements", () => {
+    const nodes = elements.filter((el): el is OsmNode => el.type === "node");
+    expect(nodes.map((n) => [n.id, n.lat, n.lon])).toEqual([
+      [1, 51.5, -0.1],
+      [2, 51.501, -0.1],
+      [3, 51.501, -0.099],
+    ]);
+    expect(nodes[0].tags).toBeUndefined();
+  });
+
+  it("reads ways and relations, and skips deleted elements and their children", () => {
+    const ways = elements.filter((el): el is OsmWay => el.type === "way");
+    expect(ways).toEqual([{ type: "way", id: -10, nodes: [1, 2, 3, 1], tags: { building: "yes" } }]);
+
+    const relation = elements.find((el): el is OsmRelation => el.type === "relation");
+    expect(relation?.members).toEqual([{ type: "way", ref: -10, role: "outer" }]);
+    expect(relation?.tags).toEqual({ type: "multipolygon" });
+  });
+});
+
+describe("GeoJSON", () => {
+  it("turns a polygon with a hole into a multipolygon relation", () => {
+    const ring = (d: number): number[][] => [
+      [-0.1 + d, 51.5 + d],
+      [-0.099 - d, 51.5 + d],
+      [-0.099 - d, 51.501 - d],
+      [-0.1 + d, 51.5 + d],
+    ];
+    const json = {
+      type: "FeatureCollection",
+      features: [
+        { type: "Feature", properties: { building: "yes", height: 12 }, geometry: { type: "Polygon", coordinates: [ring(0), ring(0.0002)] } },
+      ],
+    };
+    const elements = readDataFile(new TextEncoder().encode(JSON.stringify(json)).buffer, "geojson");
+
+    const relation = elements.find((el): el is OsmRelation => el.type === "relation");
+    expect(relation?.tags).toEqual({ building: "yes", height: "12", type: "multipolygon" });
+    expect(relation?.members.map((m) => m.role)).toEqual(["outer", "inner"]);
+
+    // Each ring closes on its own first node, not a repeat of the position
+    const outer = elements.find((el): el is OsmWay => el.type === "way" && el.id === relation?.members[0].ref);
+    expect(outer?.nodes).toHaveLength(4);
+    expect(outer?.nodes[3]).toBe(outer?.nodes[0]);
+  });
+
+  it("refuses a bare geometry", () => {
+    const json = { type: "Point", coordinates: [-0.1, 51.5] };
+    expect(() => readDataFile(new TextEncoder().encode(JSON.stringify(json)).buffer, "geojson")).toThrow(/Feature/);
+  });
+});
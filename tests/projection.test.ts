@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { projectionFor, utmZone } from "../src/projection";
+import type { ProjectionKind, Selection } from "../src/types";
+
+function selection(center: [number, number], projection: ProjectionKind): Selection {
+  return { center, widthM: 2000, heightM: 2000, bearing: 0, projection };
+}
+
+/** Centres spread over the globe, including ones far off their UTM zone's central meridian */
+const CENTRES: [number, number][] = [
+  [51.5074, -0.1278], // London, 3° off zone 30's meridian
+  [-33.8688, 151.2093], // Sydney
+  [64.1466, -21.9426], // Reykjavik
+  [78.2232, 15.6267], // Longyearbyen, Svalbard's zone 33
+  [0.5, 35.99], // equator, at a zone edge
+];
+
+/** Metres east and north of a centre, out to well past any print's edge */
+const OFFSETS: [number, number][] = [
+  [0, 0],
+  [1000, 0],
+  [0, -1000],
+  [-7000, 4500],
+  [15000, 15000],
+];
+
+describe.each(["local", "utm"] as const)("%s projection", (kind) => {
+  it.each(CENTRES)("puts the centre %f, %f at the origin", (lat, lon) => {
+    const [x, y] = projectionFor(selection([lat, lon], kind)).forward(lat, lon);
+    expect(Math.hypot(x, y)).toBeLessThan(1e-6);
+  });
+
+  it.each(CENTRES)("round-trips around %f, %f to a millimetre", (lat, lon) => {
+    const projection = projectionFor(selection([lat, lon], kind));
+    for (const [x, y] of OFFSETS) {
+      const [pLat, pLon] = projection.inverse(x, y);
+      const [rx, ry] = projection.forward(pLat, pLon);
+      expect(Math.hypot(rx - x, ry - y)).toBeLessThan(1e-3);
+    }
+    // …and back from degrees, where 1e-8° is about a millimetre
+    for (const [dLat, dLon] of [[0.1, -0.1], [-0.05, 0.2]]) {
+      const [pLat, pLon] = projection.inverse(...projection.forward(lat + dLat, lon + dLon));
+      expect(Math.abs(pLat - (lat + dLat))).toBeLessThan(1e-8);
+      expect(Math.abs(pLon - (lon + dLon))).toBeLessThan(1e-8);
+    }
+  });
+
+  it.each(CENTRES)("keeps north up and the scale true at %f, %f", (lat, lon) => {
+    const projection = projectionFor(selection([lat, lon], kind));
+    // 0.01° of latitude on the WGS84 meridian at this latitude
+    const e2 = (1 / 298.257223563) * (2 - 1 / 298.257223563);
+    const sinLat = Math.sin((lat * Math.PI) / 180);
+    const meridianRadius = (6_378_137 * (1 - e2)) / (1 - e2 * sinLat * sinLat) ** 1.5;
+    const expected = meridianRadius * 0.01 * (Math.PI / 180);
+
+    const [x, y] = projection.forward(lat + 0.01, lon);
+    expect(Math.abs(x)).toBeLessThan(0.01);
+    expect(y / expected).toBeCloseTo(1, 5);
+  });
+});
+
+describe("local and UTM projections", () => {
+  it.each(CENTRES)("agree to a centimetre within a kilometre of %f, %f", (lat, lon) => {
+    const local = projectionFor(selection([lat, lon], "local"));
+    const utm = projectionFor(selection([lat, lon], "utm"));
+    for (const [x, y] of OFFSETS.filter(([x, y]) => Math.hypot(x, y) <= 1000)) {
+      const [uLat, uLon] = utm.inverse(x, y);
+      const [lx, ly] = local.forward(uLat, uLon);
+      expect(Math.hypot(lx - x, ly - y)).toBeLessThan(0.01);
+    }
+  });
+});
+
+describe("utmZone", () => {
+  it("follows the 6° bands", () => {
+    expect(utmZone(51.5, -0.13)).toBe(30);
+    expect(utmZone(51.5, 0.13)).toBe(31);
+    expect(utmZone(-33.9, 151.2)).toBe(56);
+    expect(utmZone(0, 180)).toBe(60);
+  });
+
+  it("widens zone 32 over south-west Norway", () => {
+    expect(utmZone(60.4, 5.3)).toBe(32);
+    expect(utmZone(55.9, 5.3)).toBe(31);
+  });
+
+  it("uses Svalbard's odd zones", () => {
+    expect(utmZone(78.2, 8)).toBe(31);
+    expect(utmZone(78.2, 15.6)).toBe(33);
+    expect(utmZone(78.2, 25)).toBe(35);
+    expect(utmZone(78.2, 40)).toBe(37);
+  });
+});
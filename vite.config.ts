@@ -6,6 +6,11 @@ const gitHash = execSync("git rev-parse --short HEAD").toString().trim();
 
 export default defineConfig({
   plugins: [react()],
+  // The scene worker shares modules that load optional chunks (e.g. GeoTIFF
+  // decoding), which only ES module workers can split out
+  worker: {
+    format: "es",
+  },
   define: {
     __BUILD_HASH__: JSON.stringify(gitHash),
   },